@@ -0,0 +1,38 @@
+/**
+ * API Route: Delegate Payment (ACP Delegated Payment Spec)
+ *
+ * Responsibilities:
+ * - Accepts a card credential with its allowance and risk signals
+ * - Validates the card and the checkout session the allowance is bound to
+ * - Stores the credential encrypted in the local vault
+ * - Returns a single-use vault token for the complete checkout call
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { DelegatePaymentResponse } from '@/lib/types/delegatedPayment';
+import { validateDelegatePaymentRequest } from '@/lib/vault/credentialValidation';
+import { storeDelegatedPayment } from '@/lib/vault/tokenVault';
+import { readJsonBody } from '@/lib/acp/errors';
+import { withAcpMiddleware } from '@/lib/acp/middleware';
+import { withIdempotency } from '@/lib/acp/idempotency';
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+/**
+ * POST handler to delegate a payment credential
+ * @param request - Next.js request object with credential and allowance
+ * @returns JSON response with the vault token
+ */
+async function delegatePayment(
+  request: NextRequest
+): Promise<NextResponse<DelegatePaymentResponse>> {
+  const body = validateDelegatePaymentRequest(await readJsonBody<unknown>(request));
+
+  const vaultToken = storeDelegatedPayment(body, request.headers.get('Idempotency-Key'));
+
+  return NextResponse.json(vaultToken, { status: 201 });
+}
+
+export const POST = withAcpMiddleware(withIdempotency(delegatePayment));
@@ -0,0 +1,54 @@
+/**
+ * API Route: Cancel Checkout Session (ACP Agentic Checkout Spec)
+ *
+ * Responsibilities:
+ * - Cancels any checkout session that is not completed or canceled
+ * - Cancels the pending PaymentIntent of the session, and refuses with 405
+ *   when the payment has already gone through
+ * - Returns the canceled checkout session following ACP spec
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CheckoutSession } from '@/lib/types/checkout';
+import { readSessionsFromFile, writeSessionsToFile } from '@/lib/checkout/sessionStorage';
+import { applyCheckoutEvent, assertCanApplyEvent } from '@/lib/checkout/stateMachine';
+import { cancelCheckoutPaymentIntent } from '@/lib/stripe/payments';
+import { createAcpError } from '@/lib/acp/errors';
+import { withAcpMiddleware } from '@/lib/acp/middleware';
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+/**
+ * POST handler to cancel checkout session
+ * @param request - Next.js request object
+ * @param params - Route parameters containing checkout ID
+ * @returns JSON response with canceled checkout session
+ */
+async function cancelCheckout(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<CheckoutSession>> {
+  const { id } = await params;
+
+  const checkout = readSessionsFromFile().get(id);
+  if (!checkout) {
+    throw createAcpError('not_found', `Checkout session not found: ${id}`);
+  }
+
+  assertCanApplyEvent(checkout, 'cancel');
+  await cancelCheckoutPaymentIntent(id);
+
+  // Re-read the session in case a payment settled while Stripe was called
+  const checkoutSessions = readSessionsFromFile();
+  const latest = checkoutSessions.get(id) || checkout;
+  applyCheckoutEvent(latest, 'cancel');
+
+  checkoutSessions.set(id, latest);
+  writeSessionsToFile(checkoutSessions);
+
+  return NextResponse.json(latest);
+}
+
+export const POST = withAcpMiddleware(cancelCheckout);
@@ -2,53 +2,87 @@
  * API Route: Complete Checkout Session (ACP Agentic Checkout Spec)
  *
  * Responsibilities:
- * - Accepts SharedPaymentToken from agent
- * - Creates PaymentIntent with Stripe using SPT
- * - Creates order after successful payment
+ * - Accepts a Shared Payment Token (spt_...), a vault token (vt_...) or a
+ *   client-confirmed PaymentIntent ID
+ * - Charges Shared Payment Tokens server-side for the exact checkout total
+ * - Redeems vault tokens within their allowance and charges the delegated card
+ * - Verifies client-confirmed PaymentIntents were created for this checkout and
+ *   paid its total
+ * - Marks the session in progress while the payment is verified
+ * - Creates and stores the order after successful payment, or returns the
+ *   order the Stripe webhook already created for the same payment
+ * - Attaches signed download links for digital items to the order
+ * - Emits an order_created webhook event
  * - Returns completed checkout and order details
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import Stripe from 'stripe';
 import { CompleteCheckoutRequest } from '@/lib/types/payment';
-import { CompleteCheckoutResponse, Order } from '@/lib/types/order';
+import { CompleteCheckoutResponse } from '@/lib/types/order';
+import { CheckoutSession } from '@/lib/types/checkout';
 import { readSessionsFromFile, writeSessionsToFile } from '@/lib/checkout/sessionStorage';
-import { stripe } from '@/lib/stripe/client';
+import { readOrdersFromFile } from '@/lib/checkout/orderStorage';
+import {
+  findOrderByCheckoutId,
+  generateOrderId,
+  recordPaidOrder,
+} from '@/lib/checkout/orderCreation';
+import { applyCheckoutEvent, assertCanApplyEvent, canApplyEvent } from '@/lib/checkout/stateMachine';
+import { getMissingFulfillmentParams } from '@/lib/checkout/fulfillment';
+import { createDigitalDeliveries } from '@/lib/checkout/digitalDelivery';
+import { emitOrderEvent } from '@/lib/webhooks/orderEvents';
+import { createAcpError, readJsonBody } from '@/lib/acp/errors';
+import {
+  chargeDelegatedCard,
+  chargeSharedPaymentToken,
+  isSharedPaymentToken,
+  verifyPaymentIntent,
+} from '@/lib/stripe/payments';
+import { isVaultToken, redeemVaultToken } from '@/lib/vault/tokenVault';
+import { withAcpMiddleware } from '@/lib/acp/middleware';
+import { withIdempotency } from '@/lib/acp/idempotency';
 
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
 /**
- * Generates a unique order ID
- * @returns Order ID string
+ * Takes payment for a checkout with whichever kind of token the agent sent
+ * @param token - Token from payment_data
+ * @param checkout - Checkout session being paid
+ * @param amount - Checkout total in minor units
+ * @returns Succeeded PaymentIntent
+ * @throws AcpRequestError if the payment fails or the token is not accepted
  */
-function generateOrderId(): string {
-  return `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+async function collectPayment(
+  token: string,
+  checkout: CheckoutSession,
+  amount: number
+): Promise<Stripe.PaymentIntent> {
+  if (isSharedPaymentToken(token)) {
+    return chargeSharedPaymentToken(token, checkout.id, amount, checkout.currency);
+  }
+  if (isVaultToken(token)) {
+    const credential = redeemVaultToken(token, checkout.id, amount, checkout.currency);
+    return chargeDelegatedCard(credential, token, checkout.id, amount, checkout.currency);
+  }
+  // Anything else is a PaymentIntent the buyer already confirmed in the payment form
+  return verifyPaymentIntent(token, checkout.id, amount, checkout.currency);
 }
 
 /**
- * Creates an order after successful payment
- * @param checkoutId - Checkout session ID
- * @param paymentIntentId - Stripe PaymentIntent ID
- * @param amount - Total amount in cents
- * @param currency - Currency code
- * @returns Order object
+ * Builds an RFC 9535 JSONPath selecting one or more fields
+ * @param fields - Dotted field paths
+ * @returns JSONPath such as $.buyer.email, or $['a','b'] selecting the
+ * top-level fields when several are given
  */
-function createOrder(
-  checkoutId: string,
-  paymentIntentId: string,
-  amount: number,
-  currency: string
-): Order {
-  return {
-    id: generateOrderId(),
-    checkout_id: checkoutId,
-    payment_intent_id: paymentIntentId,
-    status: 'completed',
-    total_amount: amount,
-    currency,
-    created_at: new Date().toISOString(),
-  };
+function toJsonPath(fields: string[]): string {
+  if (fields.length === 1) {
+    return `$.${fields[0]}`;
+  }
+  const topLevelFields = [...new Set(fields.map((field) => field.split('.')[0]))];
+  return `$[${topLevelFields.map((field) => `'${field}'`).join(',')}]`;
 }
 
 // ============================================================================
@@ -56,74 +90,129 @@ function createOrder(
 // ============================================================================
 
 /**
- * POST handler to complete checkout with SharedPaymentToken
- * @param request - Next.js request object with SPT token
+ * POST handler to complete checkout with a Shared Payment Token, vault token or PaymentIntent
+ * @param request - Next.js request object with payment token
  * @param params - Route parameters containing checkout ID
  * @returns JSON response with completed checkout and order
  */
-export async function POST(
+async function completeCheckout(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse<CompleteCheckoutResponse>> {
   const { id } = await params;
-  const body: CompleteCheckoutRequest = await request.json();
+  const body = await readJsonBody<CompleteCheckoutRequest>(request);
 
   if (!body.payment_data?.token) {
-    throw new Error('payment_data.token (containing payment_intent_id) is required');
+    throw createAcpError(
+      'missing',
+      'payment_data.token (a Shared Payment Token, vault token or payment_intent_id) is required',
+      '$.payment_data.token'
+    );
   }
-  const paymentIntentId = body.payment_data.token;
+  const paymentToken = body.payment_data.token;
 
   const checkoutSessions = readSessionsFromFile();
   const checkout = checkoutSessions.get(id);
   if (!checkout) {
-    throw new Error(`Checkout session not found: ${id}`);
+    throw createAcpError('not_found', `Checkout session not found: ${id}`);
   }
 
-  if (checkout.status !== 'ready_for_payment') {
-    const missingItems: string[] = [];
-    if (!checkout.fulfillment_address) {
-      missingItems.push('shipping address');
+  // The Stripe webhook may have completed the session for this payment already
+  if (checkout.status === 'completed') {
+    const existingOrder = findOrderByCheckoutId(readOrdersFromFile(), checkout.id);
+    if (existingOrder?.payment_intent_id === paymentToken) {
+      return NextResponse.json({ checkout, order: existingOrder });
     }
-    if (!checkout.fulfillment_option_id) {
-      missingItems.push('shipping option');
+  }
+
+  if (checkout.status === 'not_ready_for_payment') {
+    const missingParams = getMissingFulfillmentParams(checkout);
+    const blockingMessage = checkout.messages.find((message) => message.type === 'error');
+    if (missingParams.length === 0 && blockingMessage?.type === 'error') {
+      throw createAcpError(
+        blockingMessage.code,
+        `Checkout not ready for payment. ${blockingMessage.content}`,
+        blockingMessage.param,
+        422
+      );
     }
-    const missingText = missingItems.length > 0 
-      ? ` Missing: ${missingItems.join(' and ')}.`
-      : '';
-    throw new Error(`Checkout not ready for payment. Status: ${checkout.status}.${missingText} Please update the checkout with address and shipping option first.`);
+    throw createAcpError(
+      'missing',
+      `Checkout not ready for payment. Missing: ${missingParams.join(', ')}. Please update the checkout first.`,
+      toJsonPath(missingParams),
+      422
+    );
   }
 
+  assertCanApplyEvent(checkout, 'begin_payment');
+
   const totalAmount = checkout.totals.find((t) => t.label === 'Total')?.amount;
   if (!totalAmount) {
-    throw new Error('Total amount not found in checkout');
+    throw createAcpError('processing_error', 'Total amount not found in checkout');
   }
 
-  // Retrieve and verify the PaymentIntent
-  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
-
-  if (paymentIntent.status !== 'succeeded') {
-    throw new Error(`Payment failed with status: ${paymentIntent.status}`);
-  }
+  // Sign download links before taking payment so configuration errors surface first
+  const orderId = generateOrderId();
+  const deliveries = createDigitalDeliveries(
+    orderId,
+    checkout.line_items,
+    checkout.buyer?.email || '',
+    request.nextUrl.origin
+  );
+
+  // Lock the session while the payment is verified so it cannot be updated or completed twice
+  applyCheckoutEvent(checkout, 'begin_payment');
+  checkoutSessions.set(id, checkout);
+  writeSessionsToFile(checkoutSessions);
 
-  if (paymentIntent.amount !== totalAmount) {
-    throw new Error(`Payment amount mismatch. Expected ${totalAmount}, but was ${paymentIntent.amount}`);
+  let paymentIntent: Stripe.PaymentIntent;
+  try {
+    paymentIntent = await collectPayment(paymentToken, checkout, totalAmount);
+  } catch (error) {
+    // Release the session so the buyer can retry with another payment. The
+    // session is re-read, so a cancel that landed meanwhile is kept.
+    const latestSessions = readSessionsFromFile();
+    const latest = latestSessions.get(id);
+    if (latest && canApplyEvent(latest.status, 'fail_payment')) {
+      applyCheckoutEvent(latest, 'fail_payment');
+      latestSessions.set(id, latest);
+      writeSessionsToFile(latestSessions);
+    }
+    throw error;
   }
 
-  if (paymentIntent.currency !== checkout.currency) {
-    throw new Error(`Payment currency mismatch. Expected ${checkout.currency}, but was ${paymentIntent.currency}`);
+  // Re-read the session: other sessions may have changed while Stripe was
+  // called, and the Stripe webhook may have completed this one already
+  const latestSessions = readSessionsFromFile();
+  const latest = latestSessions.get(id) || checkout;
+  if (latest.status !== 'completed') {
+    assertCanApplyEvent(latest, 'complete');
   }
 
-
-  // Create order
-  const order = createOrder(id, paymentIntent.id, totalAmount, checkout.currency);
+  // Create order, unless the Stripe webhook already did for this payment
+  const { order, created } = recordPaidOrder(
+    orderId,
+    latest,
+    paymentIntent.id,
+    totalAmount,
+    deliveries
+  );
 
   // Update checkout status
-  checkout.status = 'completed';
-  checkoutSessions.set(id, checkout);
-  writeSessionsToFile(checkoutSessions);
+  if (latest.status !== 'completed') {
+    applyCheckoutEvent(latest, 'complete');
+    latestSessions.set(id, latest);
+    writeSessionsToFile(latestSessions);
+  }
+
+  if (created) {
+    emitOrderEvent('order_created', order, request.nextUrl.origin);
+  }
 
   return NextResponse.json({
-    checkout,
+    checkout: latest,
     order,
   });
 }
+
+export const POST = withAcpMiddleware(withIdempotency(completeCheckout));
@@ -3,74 +3,25 @@
  *
  * Responsibilities:
  * - GET: Returns existing checkout session
- * - POST: Updates checkout session (address, shipping option)
- * - Recalculates tax and shipping when updated
+ * - POST: Updates checkout session (items, address, shipping option)
+ * - Rebuilds fulfillment options and drops a selection no longer offered
+ * - Reprices line items, tax and shipping when updated
+ * - Refreshes validation messages and merchant links
+ * - Rejects updates to completed, canceled or in-progress sessions
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { CheckoutSession, UpdateCheckoutRequest, TotalItem } from '@/lib/types/checkout';
+import { CheckoutSession, UpdateCheckoutRequest } from '@/lib/types/checkout';
 import { readSessionsFromFile, writeSessionsToFile } from '@/lib/checkout/sessionStorage';
-
-// ============================================================================
-// CONSTANTS
-// ============================================================================
-
-const TAX_RATE = 0.0875; // 8.75% sales tax
-
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-
-/**
- * Calculates tax based on subtotal
- * @param subtotal - Subtotal amount in cents
- * @returns Tax amount in cents
- */
-function calculateTax(subtotal: number): number {
-  return Math.round(subtotal * TAX_RATE);
-}
-
-/**
- * Recalculates totals for checkout session
- * @param checkout - Checkout session to update
- * @returns Updated totals array
- */
-function recalculateTotals(checkout: CheckoutSession): TotalItem[] {
-  const subtotal = checkout.line_items.reduce((sum, item) => sum + item.subtotal, 0);
-
-  // Calculate shipping
-  let shippingAmount = 0;
-  if (checkout.fulfillment_option_id) {
-    const shippingOption = checkout.fulfillment_options.find(
-      (opt) => opt.id === checkout.fulfillment_option_id
-    );
-    shippingAmount = shippingOption?.amount || 0;
-  }
-
-  // Calculate tax (only if address is provided)
-  const taxAmount = checkout.fulfillment_address ? calculateTax(subtotal) : 0;
-
-  const total = subtotal + shippingAmount + taxAmount;
-
-  return [
-    {
-      label: 'Subtotal',
-      amount: subtotal,
-    },
-    {
-      label: 'Shipping',
-      amount: shippingAmount,
-    },
-    {
-      label: 'Tax',
-      amount: taxAmount,
-    },
-    {
-      label: 'Total',
-      amount: total,
-    },
-  ];
-}
+import { applyCheckoutEvent, assertCanApplyEvent } from '@/lib/checkout/stateMachine';
+import { createAcpError, readJsonBody } from '@/lib/acp/errors';
+import { buildCheckoutMessages } from '@/lib/checkout/messages';
+import { getMerchantLinks } from '@/lib/checkout/links';
+import { normalizeCartItems } from '@/lib/checkout/cartItems';
+import { priceCheckoutSession } from '@/lib/checkout/pricing';
+import { buildFulfillmentOptions, resolveFulfillmentOptionId } from '@/lib/checkout/fulfillment';
+import { withAcpMiddleware } from '@/lib/acp/middleware';
+import { withIdempotency } from '@/lib/acp/idempotency';
 
 // ============================================================================
 // MAIN ENDPOINTS
@@ -82,7 +33,7 @@ function recalculateTotals(checkout: CheckoutSession): TotalItem[] {
  * @param params - Route parameters containing checkout ID
  * @returns JSON response with checkout session
  */
-export async function GET(
+async function getCheckout(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse<CheckoutSession>> {
@@ -91,7 +42,7 @@ export async function GET(
   const checkoutSessions = readSessionsFromFile();
   const checkout = checkoutSessions.get(id);
   if (!checkout) {
-    throw new Error(`Checkout session not found: ${id}`);
+    throw createAcpError('not_found', `Checkout session not found: ${id}`);
   }
 
   return NextResponse.json(checkout);
@@ -103,53 +54,91 @@ export async function GET(
  * @param params - Route parameters containing checkout ID
  * @returns JSON response with updated checkout session
  */
-export async function POST(
+async function updateCheckout(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse<CheckoutSession>> {
   const { id } = await params;
-  const body: UpdateCheckoutRequest = await request.json();
+  const body = await readJsonBody<UpdateCheckoutRequest>(request);
 
   const checkoutSessions = readSessionsFromFile();
   const checkout = checkoutSessions.get(id);
   if (!checkout) {
-    throw new Error(`Checkout session not found: ${id}`);
+    throw createAcpError('not_found', `Checkout session not found: ${id}`);
   }
 
+  // Reject before applying any changes to a closed session
+  assertCanApplyEvent(checkout, 'update');
+
   // Update checkout fields
   if (body.buyer) {
     checkout.buyer = { ...checkout.buyer, ...body.buyer };
   }
 
+  // Items replace the cart; omitted items or a quantity of 0 remove a product
+  let cartItems = checkout.line_items.map((lineItem) => lineItem.item);
+  if (body.items) {
+    cartItems = normalizeCartItems(body.items, true);
+    if (cartItems.length === 0) {
+      throw createAcpError(
+        'invalid',
+        'Checkout must contain at least one item. Cancel the checkout session to remove all items.',
+        '$.items'
+      );
+    }
+  }
+
   if (body.fulfillment_address) {
     checkout.fulfillment_address = body.fulfillment_address;
   }
 
+  // Options depend on destination, weight and digital items; a selection
+  // that is no longer offered is cleared so the buyer has to choose again
+  checkout.fulfillment_options = buildFulfillmentOptions(checkout.fulfillment_address, cartItems);
+  checkout.fulfillment_option_id = resolveFulfillmentOptionId(
+    checkout.fulfillment_options,
+    cartItems,
+    checkout.fulfillment_option_id
+  );
+
   if (body.fulfillment_option_id) {
+    if (!checkout.fulfillment_options.some((opt) => opt.id === body.fulfillment_option_id)) {
+      throw createAcpError(
+        'invalid',
+        `Unknown fulfillment option: ${body.fulfillment_option_id}`,
+        '$.fulfillment_option_id'
+      );
+    }
+    const resolvedId = resolveFulfillmentOptionId(
+      checkout.fulfillment_options,
+      cartItems,
+      body.fulfillment_option_id
+    );
+    if (resolvedId !== body.fulfillment_option_id) {
+      throw createAcpError(
+        'invalid',
+        'Carts with physical items must select a shipping option',
+        '$.fulfillment_option_id'
+      );
+    }
     checkout.fulfillment_option_id = body.fulfillment_option_id;
   }
 
-  // Recalculate totals
-  checkout.totals = recalculateTotals(checkout);
-
-  // Update line items with tax
-  const taxAmount = checkout.totals.find((t) => t.label === 'Tax')?.amount || 0;
-  const taxPerItem = Math.round(taxAmount / checkout.line_items.length);
-  checkout.line_items = checkout.line_items.map((item, index) => ({
-    ...item,
-    tax: index === checkout.line_items.length - 1
-      ? taxAmount - taxPerItem * (checkout.line_items.length - 1) // Last item gets remainder
-      : taxPerItem,
-    total: item.subtotal + taxPerItem,
-  }));
-
-  // Update status
-  if (checkout.fulfillment_address && checkout.fulfillment_option_id) {
-    checkout.status = 'ready_for_payment';
-  }
+  // Reprice line items and totals
+  const pricing = await priceCheckoutSession(checkout, cartItems);
+  checkout.line_items = pricing.line_items;
+  checkout.totals = pricing.totals;
+
+  // Refresh validation messages and links, then update status
+  checkout.messages = buildCheckoutMessages(checkout);
+  checkout.links = getMerchantLinks();
+  applyCheckoutEvent(checkout, 'update');
 
   checkoutSessions.set(id, checkout);
   writeSessionsToFile(checkoutSessions);
 
   return NextResponse.json(checkout);
 }
+
+export const GET = withAcpMiddleware(getCheckout);
+export const POST = withAcpMiddleware(withIdempotency(updateCheckout));
@@ -3,49 +3,31 @@
  *
  * Responsibilities:
  * - Creates new checkout session
- * - Calculates line items, totals
+ * - Builds shipping and digital delivery options for the address and cart
+ * - Prices line items and totals with the shared pricing engine
+ * - Attaches validation messages and merchant links
  * - Stores session in memory
- * - Returns checkout session following ACP spec
+ * - Returns the created checkout session with 201 following ACP spec
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import {
-  CheckoutSession,
-  CreateCheckoutRequest,
-  LineItem,
-  FulfillmentOption,
-  TotalItem,
-} from '@/lib/types/checkout';
-import { Product } from '@/lib/types/product';
-import productsData from '@/data/products.json';
+import { CheckoutSession, CreateCheckoutRequest } from '@/lib/types/checkout';
 import { readSessionsFromFile, writeSessionsToFile } from '@/lib/checkout/sessionStorage';
+import { deriveReadinessStatus } from '@/lib/checkout/stateMachine';
+import { buildCheckoutMessages } from '@/lib/checkout/messages';
+import { getMerchantLinks } from '@/lib/checkout/links';
+import { normalizeCartItems } from '@/lib/checkout/cartItems';
+import { priceCheckoutSession } from '@/lib/checkout/pricing';
+import { buildFulfillmentOptions, resolveFulfillmentOptionId } from '@/lib/checkout/fulfillment';
+import { createAcpError, readJsonBody } from '@/lib/acp/errors';
+import { withAcpMiddleware } from '@/lib/acp/middleware';
+import { withIdempotency } from '@/lib/acp/idempotency';
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
 const DEFAULT_CURRENCY = 'usd';
-const TAX_RATE = 0.0875; // 8.75% sales tax
-const FULFILLMENT_OPTIONS: FulfillmentOption[] = [
-  {
-    id: 'standard',
-    name: 'Standard Shipping',
-    amount: 500, // $5.00
-    description: '5-7 business days',
-  },
-  {
-    id: 'express',
-    name: 'Express Shipping',
-    amount: 1500, // $15.00
-    description: '2-3 business days',
-  },
-  {
-    id: 'overnight',
-    name: 'Overnight Shipping',
-    amount: 2500, // $25.00
-    description: 'Next business day',
-  },
-];
 
 // ============================================================================
 // HELPER FUNCTIONS
@@ -59,72 +41,6 @@ function generateCheckoutId(): string {
   return `checkout_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-/**
- * Calculates line items from cart items
- * @param items - Cart items with product IDs and quantities
- * @returns Array of line items with pricing
- */
-function calculateLineItems(items: CreateCheckoutRequest['items']): LineItem[] {
-  const products = productsData as Product[];
-
-  return items.map((item) => {
-    const product = products.find((p) => p.id === item.id);
-    if (!product) {
-      throw new Error(`Product not found: ${item.id}`);
-    }
-
-    const baseAmount = product.price * item.quantity;
-    const discount = 0;
-    const subtotal = baseAmount - discount;
-    const tax = 0; // Tax calculated after address/shipping
-
-    return {
-      id: item.id,
-      item: item,
-      base_amount: baseAmount,
-      discount,
-      total: subtotal + tax,
-      subtotal,
-      tax,
-    };
-  });
-}
-
-/**
- * Calculates totals for checkout session
- * @param lineItems - Line items in checkout
- * @param shippingAmount - Shipping cost
- * @param taxAmount - Tax amount
- * @returns Array of total line items
- */
-function calculateTotals(
-  lineItems: LineItem[],
-  shippingAmount: number,
-  taxAmount: number
-): TotalItem[] {
-  const subtotal = lineItems.reduce((sum, item) => sum + item.subtotal, 0);
-  const total = subtotal + shippingAmount + taxAmount;
-
-  return [
-    {
-      label: 'Subtotal',
-      amount: subtotal,
-    },
-    {
-      label: 'Shipping',
-      amount: shippingAmount,
-    },
-    {
-      label: 'Tax',
-      amount: taxAmount,
-    },
-    {
-      label: 'Total',
-      amount: total,
-    },
-  ];
-}
-
 // ============================================================================
 // MAIN ENDPOINT
 // ============================================================================
@@ -132,22 +48,31 @@ function calculateTotals(
 /**
  * POST handler to create checkout session
  * @param request - Next.js request object with checkout creation data
- * @returns JSON response with created checkout session
+ * @returns 201 JSON response with created checkout session
  */
-export async function POST(request: NextRequest): Promise<NextResponse<CheckoutSession>> {
-  const body: CreateCheckoutRequest = await request.json();
+async function createCheckout(request: NextRequest): Promise<NextResponse<CheckoutSession>> {
+  const body = await readJsonBody<CreateCheckoutRequest>(request);
 
-  if (!body.items || body.items.length === 0) {
-    throw new Error('Items are required');
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    throw createAcpError('missing', 'Items are required', '$.items');
   }
 
   const checkoutId = generateCheckoutId();
-  const lineItems = calculateLineItems(body.items);
+  const cartItems = normalizeCartItems(body.items, false);
 
-  // Initial state: no shipping or tax yet
-  const shippingAmount = 0;
-  const taxAmount = 0;
-  const totals = calculateTotals(lineItems, shippingAmount, taxAmount);
+  // Shipping options depend on the address; only digital-only carts start
+  // with an option selected
+  const fulfillmentOptions = buildFulfillmentOptions(body.fulfillment_address, cartItems);
+  const fulfillmentOptionId = resolveFulfillmentOptionId(fulfillmentOptions, cartItems);
+  const { line_items: lineItems, totals } = await priceCheckoutSession(
+    {
+      currency: DEFAULT_CURRENCY,
+      fulfillment_address: body.fulfillment_address,
+      fulfillment_options: fulfillmentOptions,
+      fulfillment_option_id: fulfillmentOptionId,
+    },
+    cartItems
+  );
 
   const checkout: CheckoutSession = {
     id: checkoutId,
@@ -156,20 +81,26 @@ export async function POST(request: NextRequest): Promise<NextResponse<CheckoutS
       provider: 'stripe',
       supported_payment_methods: ['card'],
     },
-    status: body.fulfillment_address ? 'not_ready_for_payment' : 'not_ready_for_payment',
+    status: 'not_ready_for_payment',
     currency: DEFAULT_CURRENCY,
     line_items: lineItems,
     fulfillment_address: body.fulfillment_address,
-    fulfillment_options: FULFILLMENT_OPTIONS,
-    fulfillment_option_id: undefined,
+    fulfillment_options: fulfillmentOptions,
+    fulfillment_option_id: fulfillmentOptionId,
     totals,
     messages: [],
-    links: [],
+    links: getMerchantLinks(),
   };
 
+  // Validation problems are reported on the session rather than as errors
+  checkout.messages = buildCheckoutMessages(checkout);
+  checkout.status = deriveReadinessStatus(checkout);
+
   const checkoutSessions = readSessionsFromFile();
   checkoutSessions.set(checkoutId, checkout);
   writeSessionsToFile(checkoutSessions);
 
-  return NextResponse.json(checkout);
+  return NextResponse.json(checkout, { status: 201 });
 }
+
+export const POST = withAcpMiddleware(withIdempotency(createCheckout));
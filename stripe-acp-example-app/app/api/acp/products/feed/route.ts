@@ -2,14 +2,76 @@
  * API Route: Product Feed (ACP Product Feed Spec)
  *
  * Responsibilities:
- * - Returns list of available products
- * - Supports optional query parameter for filtering
+ * - Returns list of available products with the full Product Feed fields
+ *   (flags, identifiers, media, pricing, availability and variants)
+ * - Searches products with enable_search by query, category, brand,
+ *   availability and price range, with relevance scores and facet counts
+ * - Sorts by relevance, price or name and paginates with cursors
+ * - Serves the catalog from the search index, which leaves out items that
+ *   fail feed validation and is rebuilt when data/products.json changes
+ * - Streams the feed as JSONL, CSV, TSV or XML, optionally gzipped, for bulk
+ *   delivery to agent platforms
  * - Implements ACP Product Feed specification
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Product, ProductFeedResponse } from '@/lib/types/product';
-import productsData from '@/data/products.json';
+import {
+  ProductAvailability,
+  ProductFeedResponse,
+  ProductSortOrder,
+} from '@/lib/types/product';
+import { createAcpError } from '@/lib/acp/errors';
+import { withAcpMiddleware } from '@/lib/acp/middleware';
+import {
+  createProductFeedStream,
+  FEED_CONTENT_TYPES,
+  FEED_EXPORT_FORMATS,
+  isFeedExportFormat,
+} from '@/lib/feed/feedExport';
+import { PRODUCT_SORT_ORDERS, searchProducts } from '@/lib/search/productSearch';
+import { getSearchIndex } from '@/lib/search/searchIndex';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const AVAILABILITIES: ProductAvailability[] = ['in_stock', 'out_of_stock', 'preorder'];
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Parses a comma-separated list query parameter
+ * @param value - Query parameter value
+ * @returns Non-empty trimmed values, or undefined when not given
+ */
+function parseListParam(value: string | null): string[] | undefined {
+  const values = value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return values && values.length > 0 ? values : undefined;
+}
+
+/**
+ * Parses a non-negative integer query parameter
+ * @param value - Query parameter value
+ * @param name - Query parameter name, used in errors
+ * @returns Parsed integer, or undefined when not given
+ */
+function parseIntegerParam(value: string | null, name: string): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw createAcpError('invalid', `${name} must be a non-negative integer`, `$.${name}`);
+  }
+  return parsed;
+}
 
 // ============================================================================
 // MAIN ENDPOINT
@@ -17,26 +79,77 @@ import productsData from '@/data/products.json';
 
 /**
  * GET handler for product feed
- * @param request - Next.js request object with optional query parameter
- * @returns JSON response with products matching the query
+ * @param request - Next.js request object with optional q, category, brand,
+ * availability, min_price, max_price, sort, limit, cursor, format and gzip
+ * query parameters
+ * @returns JSON response with a page of matching products and facet counts, or
+ * the streamed feed file when a bulk format is requested
+ * @throws AcpRequestError with code invalid for an unknown format, sort or
+ * availability, a bad price or limit, or a bad cursor
  */
-export async function GET(request: NextRequest): Promise<NextResponse<ProductFeedResponse>> {
+async function getProductFeed(request: NextRequest): Promise<NextResponse<ProductFeedResponse>> {
   const searchParams = request.nextUrl.searchParams;
-  const query = searchParams.get('q')?.toLowerCase();
-
-  const products = productsData as Product[];
-
-  const filteredProducts = query
-    ? products.filter(
-        (product) =>
-          product.name.toLowerCase().includes(query) ||
-          product.description.toLowerCase().includes(query) ||
-          product.category?.toLowerCase().includes(query)
-      )
-    : products;
-
-  return NextResponse.json({
-    products: filteredProducts,
-    total: filteredProducts.length,
+  const query = searchParams.get('q') || undefined;
+  const format = searchParams.get('format') || 'json';
+  const gzip = searchParams.get('gzip') === 'true';
+
+  if (format !== 'json' && !isFeedExportFormat(format)) {
+    throw createAcpError(
+      'invalid',
+      `format must be one of: json, ${FEED_EXPORT_FORMATS.join(', ')}`,
+      '$.format'
+    );
+  }
+
+  const index = getSearchIndex();
+
+  if (format === 'json') {
+    const sort = searchParams.get('sort') || 'relevance';
+    if (!PRODUCT_SORT_ORDERS.includes(sort as ProductSortOrder)) {
+      throw createAcpError('invalid', `sort must be one of: ${PRODUCT_SORT_ORDERS.join(', ')}`, '$.sort');
+    }
+
+    const availability = parseListParam(searchParams.get('availability'));
+    if (availability?.some((value) => !AVAILABILITIES.includes(value as ProductAvailability))) {
+      throw createAcpError(
+        'invalid',
+        `availability must be one of: ${AVAILABILITIES.join(', ')}`,
+        '$.availability'
+      );
+    }
+
+    const limit = parseIntegerParam(searchParams.get('limit'), 'limit') ?? DEFAULT_LIMIT;
+    if (limit === 0) {
+      throw createAcpError('invalid', 'limit must be at least 1', '$.limit');
+    }
+
+    return NextResponse.json(
+      searchProducts(index, {
+        query,
+        category: parseListParam(searchParams.get('category')),
+        brand: parseListParam(searchParams.get('brand')),
+        availability: availability as ProductAvailability[] | undefined,
+        min_price: parseIntegerParam(searchParams.get('min_price'), 'min_price'),
+        max_price: parseIntegerParam(searchParams.get('max_price'), 'max_price'),
+        sort: sort as ProductSortOrder,
+        limit: Math.min(limit, MAX_LIMIT),
+        cursor: searchParams.get('cursor') || undefined,
+      })
+    );
+  }
+
+  // Bulk formats carry the whole feed, or every match of q without paging
+  const feedProducts = query
+    ? searchProducts(index, { query, sort: 'relevance', limit: index.products.length }).products
+    : index.products;
+
+  const filename = `products.${format}${gzip ? '.gz' : ''}`;
+  return new NextResponse(createProductFeedStream(feedProducts, format, gzip), {
+    headers: {
+      'Content-Type': gzip ? 'application/gzip' : FEED_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
   });
 }
+
+export const GET = withAcpMiddleware(getProductFeed);
@@ -3,8 +3,10 @@
  *
  * Responsibilities:
  * - Proxies streaming chat requests to dat1 API with tool calling support
- * - Defines shopping tools (search_products, create_checkout, update_checkout, complete_checkout)
- * - Executes tool calls by calling ACP endpoints
+ * - Defines shopping tools (search_products, create_checkout, update_checkout, complete_checkout,
+ *   get_order_status, request_refund, list_saved_payment_methods)
+ * - Executes tool calls by calling ACP endpoints with signed requests
+ * - Looks up the buyer's saved cards through the payment API, without letting the agent pay with them
  * - Handles API key authentication securely on the server side
  * - Streams chat completion responses to the frontend using Server-Sent Events
  */
@@ -12,6 +14,8 @@
 import { NextRequest } from 'next/server';
 import { writeFileSync, mkdirSync, readFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { buildSignedHeaders } from '@/lib/acp/signature';
+import { SavedPaymentMethodsResponse } from '@/lib/types/payment';
 
 // ============================================================================
 // CONSTANTS
@@ -23,6 +27,7 @@ const DAT1_API_URL = 'https://api.dat1.co/api/v1/collection/open-ai/chat/complet
 const DAT1_MODEL = 'gpt-120-oss';
 const DEFAULT_TEMPERATURE = 0.7;
 const DEFAULT_MAX_TOKENS = 5000;
+const DEFAULT_SEARCH_LIMIT = 10;
 const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
 
 // ============================================================================
@@ -73,7 +78,7 @@ const TOOLS: ToolDefinition[] = [
     type: 'function',
     function: {
       name: 'search_products',
-      description: 'Search for products in the catalog. Returns a list of products matching the search query.',
+      description: 'Search for products in the catalog. Matching tolerates typos, plurals, words written together or apart and common synonyms (e.g., "sneekers", "ultra boost"). Returns one page of matching products, ranked by a relevance score unless another sort is chosen, the total number of matches, a next_cursor for the following page (null on the last page) and facet counts by category, brand, availability and price range. Products include brand, price, any sale_price and its sale_price_effective_date window, availability and variant details (item_group_id, color, size). Variants of one product share an item_group_id. Products with enable_checkout false can be shown to the buyer but not added to a checkout. Prefer filters and sort over fetching many results, e.g. "running shoes under $100, cheapest first" is query "running shoes", max_price 10000, sort price_asc. Only use product IDs returned by this tool; if nothing matches, say so or search again with fewer words instead of guessing an ID.',
       parameters: {
         type: 'object',
         properties: {
@@ -81,8 +86,44 @@ const TOOLS: ToolDefinition[] = [
             type: 'string',
             description: 'Search query to find products (e.g., "shoes", "nike", "running shoes")',
           },
+          category: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Only products in any of these categories',
+          },
+          brand: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Only products of any of these brands',
+          },
+          availability: {
+            type: 'array',
+            items: { type: 'string', enum: ['in_stock', 'out_of_stock', 'preorder'] },
+            description: 'Only products with any of these availabilities',
+          },
+          min_price: {
+            type: 'integer',
+            description: 'Minimum current price in cents, including active sales (e.g., 5000 for $50)',
+          },
+          max_price: {
+            type: 'integer',
+            description: 'Maximum current price in cents, including active sales (e.g., 10000 for $100)',
+          },
+          sort: {
+            type: 'string',
+            enum: ['relevance', 'price_asc', 'price_desc', 'name_asc', 'name_desc'],
+            description: 'Result order (default relevance)',
+          },
+          limit: {
+            type: 'integer',
+            description: `Number of products to return (default ${DEFAULT_SEARCH_LIMIT}, max 100)`,
+          },
+          cursor: {
+            type: 'string',
+            description: 'next_cursor from the previous page of the same search, to get the next page',
+          },
         },
-        required: ['query'],
+        required: [],
       },
     },
   },
@@ -115,23 +156,48 @@ const TOOLS: ToolDefinition[] = [
     type: 'function',
     function: {
       name: 'update_checkout',
-      description: 'Update checkout session with shipping address and/or shipping option. Returns updated totals with tax and shipping.',
+      description: 'Update checkout session items, buyer details, shipping address and/or fulfillment option. Physical items need a shipping address and shipping option; digital items need a buyer email. Returns updated totals with tax and shipping, plus messages describing any problems (such as an invalid postal code) that must be fixed before payment.',
       parameters: {
         type: 'object',
         properties: {
           checkout_id: { type: 'string', description: 'Checkout session ID' },
+          items: {
+            type: 'array',
+            description: 'Full updated list of items in the cart. Omit an item or set its quantity to 0 to remove it. Leave out this argument to keep the cart unchanged.',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', description: 'Product ID' },
+                quantity: { type: 'number', description: 'New quantity (0 removes the item)' },
+              },
+              required: ['id', 'quantity'],
+            },
+          },
+          buyer: {
+            type: 'object',
+            description: 'Buyer details. The email receives download links for digital items.',
+            properties: {
+              first_name: { type: 'string' },
+              last_name: { type: 'string' },
+              email: { type: 'string' },
+              phone_number: { type: 'string' },
+            },
+          },
           fulfillment_address: {
             type: 'object',
             description: 'Shipping address',
             properties: {
-              line1: { type: 'string' },
+              name: { type: 'string', description: 'Name of the recipient' },
+              line_one: { type: 'string' },
+              line_two: { type: 'string' },
               city: { type: 'string' },
               state: { type: 'string' },
               postal_code: { type: 'string' },
-              country: { type: 'string' },
+              country: { type: 'string', description: 'ISO 3166-1 alpha-2 country code, e.g. "US"' },
             },
+            required: ['name', 'line_one', 'city', 'state', 'postal_code', 'country'],
           },
-          fulfillment_option_id: { type: 'string', description: 'Shipping option ID (standard, express, overnight)' },
+          fulfillment_option_id: { type: 'string', description: 'ID of one of the fulfillment_options offered for the checkout. Shipping options are only available once an address is set.' },
         },
         required: ['checkout_id'],
       },
@@ -150,7 +216,7 @@ const TOOLS: ToolDefinition[] = [
             type: 'object',
             description: 'Payment data containing the token from the payment provider.',
             properties: {
-              token: { type: 'string', description: 'The payment token (payment_intent_id from Stripe).' },
+              token: { type: 'string', description: 'The payment token: a Shared Payment Token (spt_...) or a payment_intent_id from Stripe.' },
               provider: { type: 'string', description: 'The payment provider, should be "stripe".' }
             },
             required: ['token', 'provider']
@@ -160,6 +226,62 @@ const TOOLS: ToolDefinition[] = [
       },
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: 'get_order_status',
+      description: 'Look up an order placed through checkout. Returns its status (confirmed, fulfilled, shipped, delivered or canceled), timestamps, carrier and tracking number. Use this when the buyer asks where their order is.',
+      parameters: {
+        type: 'object',
+        properties: {
+          order_id: { type: 'string', description: 'Order ID returned by complete_checkout' },
+          checkout_id: { type: 'string', description: 'Checkout session ID, used when the order ID is not known' },
+        },
+        required: [],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'request_refund',
+      description: 'Request a refund for an order on behalf of the buyer. Only orders placed from a checkout created in this conversation can be refunded. The merchant refund policy applies: refunds are only possible within the return window and some product categories (such as ebooks) are non-refundable. Omit line_items to refund everything that is refundable. Confirm with the buyer before calling.',
+      parameters: {
+        type: 'object',
+        properties: {
+          order_id: { type: 'string', description: 'Order ID returned by complete_checkout' },
+          line_items: {
+            type: 'array',
+            description: 'Line items and quantities to refund. Leave out to refund the whole order.',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', description: 'Line item ID from the order' },
+                quantity: { type: 'number', description: 'Number of units to refund' },
+              },
+              required: ['id', 'quantity'],
+            },
+          },
+          reason: { type: 'string', description: 'Reason for the refund given by the buyer' },
+        },
+        required: ['order_id'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_saved_payment_methods',
+      description: 'List the cards the buyer saved in earlier purchases, found by the buyer email on the checkout. Cards are only listed after the buyer verified that email with the code offered in the payment form; until then the result has verification_required set and no cards, and you should tell the buyer to verify their email in the payment form. Returns brand, last 4 digits and expiry of each card. Use this to suggest a saved card (e.g. "Pay with your Visa ending 4242?"). You cannot pay with a saved card yourself: the buyer confirms the payment in the payment form, which then sends you the payment token.',
+      parameters: {
+        type: 'object',
+        properties: {
+          checkout_id: { type: 'string', description: 'Checkout session ID with a buyer email' },
+        },
+        required: ['checkout_id'],
+      },
+    },
+  },
 ];
 
 // ============================================================================
@@ -170,7 +292,15 @@ const TOOLS: ToolDefinition[] = [
  * Parsed arguments for search_products tool
  */
 interface SearchProductsArgs {
-  query: string;
+  query?: string;
+  category?: string[];
+  brand?: string[];
+  availability?: string[];
+  min_price?: number;
+  max_price?: number;
+  sort?: string;
+  limit?: number;
+  cursor?: string;
 }
 
 /**
@@ -185,6 +315,8 @@ interface CreateCheckoutArgs {
  */
 interface UpdateCheckoutArgs {
   checkout_id: string;
+  items?: Array<{ id: string; quantity: number }>;
+  buyer?: Record<string, string>;
   fulfillment_address?: Record<string, string>;
   fulfillment_option_id?: string;
 }
@@ -200,21 +332,123 @@ interface CompleteCheckoutArgs {
   };
 }
 
+/**
+ * Parsed arguments for get_order_status tool
+ */
+interface GetOrderStatusArgs {
+  order_id?: string;
+  checkout_id?: string;
+}
+
+/**
+ * Parsed arguments for request_refund tool
+ */
+interface RequestRefundArgs {
+  order_id: string;
+  line_items?: Array<{ id: string; quantity: number }>;
+  reason?: string;
+}
+
+/**
+ * Parsed arguments for list_saved_payment_methods tool
+ */
+interface ListSavedPaymentMethodsArgs {
+  checkout_id: string;
+}
+
+/**
+ * Lists the checkout sessions created in a conversation, from the results of
+ * its create_checkout tool calls
+ * @param messages - Conversation messages
+ * @returns Checkout session IDs
+ */
+function findConversationCheckoutIds(messages: ChatMessage[]): string[] {
+  return messages.flatMap((message) => {
+    if (message.role !== 'tool' || message.name !== 'create_checkout') {
+      return [];
+    }
+    try {
+      const { id } = JSON.parse(message.content) as { id?: string };
+      return id ? [id] : [];
+    } catch {
+      // Failed tool calls store an error object, other content is skipped
+      return [];
+    }
+  });
+}
+
+/**
+ * Calls an ACP endpoint with the signed headers the ACP middleware requires
+ * @param method - HTTP method
+ * @param path - Endpoint path including query string
+ * @param body - Optional JSON request body
+ * @param idempotencyKey - Optional Idempotency-Key so a retried call is not applied twice
+ * @returns Fetch response
+ */
+async function callAcpEndpoint(
+  method: 'GET' | 'POST',
+  path: string,
+  body?: unknown,
+  idempotencyKey?: string
+): Promise<Response> {
+  const rawBody = body === undefined ? '' : JSON.stringify(body);
+  return fetch(`${BASE_URL}${path}`, {
+    method,
+    headers: buildSignedHeaders(rawBody, idempotencyKey),
+    body: body === undefined ? undefined : rawBody,
+  });
+}
+
+/**
+ * Builds a tool error from a failed ACP response so the agent sees the spec error
+ * @param response - Failed fetch response
+ * @param action - Description of the attempted action
+ * @returns Error including the ACP error message and offending param
+ */
+async function toToolError(response: Response, action: string): Promise<Error> {
+  const errorData = await response.json().catch(() => null);
+  if (!errorData?.message) {
+    return new Error(`Failed to ${action}: ${response.statusText}`);
+  }
+  const paramText = errorData.param ? ` (param: ${errorData.param})` : '';
+  return new Error(`Failed to ${action}: ${errorData.message}${paramText}`);
+}
+
 /**
  * Execute a tool call by calling the appropriate ACP endpoint
  * @param toolName - Name of the tool to execute
  * @param args - Tool arguments as JSON string
+ * @param toolCallId - Tool call ID, used as Idempotency-Key for POST calls
+ * @param checkoutIds - Checkout sessions created in this conversation
  * @returns Tool execution result
  */
-async function executeTool(toolName: string, args: string): Promise<string> {
-  const parsedArgs = JSON.parse(args) as SearchProductsArgs | CreateCheckoutArgs | UpdateCheckoutArgs | CompleteCheckoutArgs;
+async function executeTool(
+  toolName: string,
+  args: string,
+  toolCallId: string,
+  checkoutIds: string[]
+): Promise<string> {
+  const parsedArgs = JSON.parse(args) as
+    | SearchProductsArgs
+    | CreateCheckoutArgs
+    | UpdateCheckoutArgs
+    | CompleteCheckoutArgs
+    | GetOrderStatusArgs
+    | RequestRefundArgs
+    | ListSavedPaymentMethodsArgs;
 
   switch (toolName) {
     case 'search_products': {
       const searchArgs = parsedArgs as SearchProductsArgs;
-      const response = await fetch(`${BASE_URL}/api/acp/products/feed?q=${encodeURIComponent(searchArgs.query)}`);
+      const params = new URLSearchParams({ limit: String(searchArgs.limit ?? DEFAULT_SEARCH_LIMIT) });
+      for (const [name, value] of Object.entries(searchArgs)) {
+        if (name !== 'limit' && value !== undefined && value !== null && value !== '') {
+          params.set(name === 'query' ? 'q' : name, Array.isArray(value) ? value.join(',') : String(value));
+        }
+      }
+      const response = await callAcpEndpoint('GET', `/api/acp/products/feed?${params}`);
       if (!response.ok) {
-        throw new Error('Failed to search products');
+        throw await toToolError(response, 'search products');
       }
       const data = await response.json();
       return JSON.stringify(data);
@@ -222,13 +456,9 @@ async function executeTool(toolName: string, args: string): Promise<string> {
 
     case 'create_checkout': {
       const createArgs = parsedArgs as CreateCheckoutArgs;
-      const response = await fetch(`${BASE_URL}/api/acp/checkout_sessions`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ items: createArgs.items, buyer: {} }),
-      });
+      const response = await callAcpEndpoint('POST', '/api/acp/checkout_sessions', { items: createArgs.items, buyer: {} }, toolCallId);
       if (!response.ok) {
-        throw new Error('Failed to create checkout');
+        throw await toToolError(response, 'create checkout');
       }
       const data = await response.json();
       return JSON.stringify(data);
@@ -237,13 +467,9 @@ async function executeTool(toolName: string, args: string): Promise<string> {
     case 'update_checkout': {
       const updateArgs = parsedArgs as UpdateCheckoutArgs;
       const { checkout_id, ...updateData } = updateArgs;
-      const response = await fetch(`${BASE_URL}/api/acp/checkout_sessions/${checkout_id}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(updateData),
-      });
+      const response = await callAcpEndpoint('POST', `/api/acp/checkout_sessions/${checkout_id}`, updateData, toolCallId);
       if (!response.ok) {
-        throw new Error('Failed to update checkout');
+        throw await toToolError(response, 'update checkout');
       }
       const data = await response.json();
       return JSON.stringify(data);
@@ -252,19 +478,84 @@ async function executeTool(toolName: string, args: string): Promise<string> {
     case 'complete_checkout': {
       const completeArgs = parsedArgs as CompleteCheckoutArgs;
       const { checkout_id, payment_data } = completeArgs;
-      const response = await fetch(`${BASE_URL}/api/acp/checkout_sessions/${checkout_id}/complete`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ payment_data }),
-      });
+      const response = await callAcpEndpoint('POST', `/api/acp/checkout_sessions/${checkout_id}/complete`, { payment_data }, toolCallId);
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`Failed to complete checkout: ${errorData.error || response.statusText}`);
+        throw await toToolError(response, 'complete checkout');
       }
       const data = await response.json();
       return JSON.stringify(data);
     }
 
+    case 'get_order_status': {
+      const orderArgs = parsedArgs as GetOrderStatusArgs;
+      if (orderArgs.order_id) {
+        const response = await callAcpEndpoint('GET', `/api/orders/${encodeURIComponent(orderArgs.order_id)}`);
+        if (!response.ok) {
+          throw await toToolError(response, 'get order status');
+        }
+        const data = await response.json();
+        return JSON.stringify(data);
+      }
+      if (!orderArgs.checkout_id) {
+        throw new Error('Failed to get order status: order_id or checkout_id is required');
+      }
+      const response = await callAcpEndpoint('GET', `/api/orders?checkout_id=${encodeURIComponent(orderArgs.checkout_id)}&limit=1`);
+      if (!response.ok) {
+        throw await toToolError(response, 'get order status');
+      }
+      const data = await response.json();
+      if (data.orders.length === 0) {
+        throw new Error(`Failed to get order status: no order found for checkout ${orderArgs.checkout_id}`);
+      }
+      return JSON.stringify(data.orders[0]);
+    }
+
+    case 'request_refund': {
+      // Only the documented fields are forwarded; agents cannot override the
+      // merchant refund policy, and the endpoint rejects it if they try
+      const { order_id, line_items, reason } = parsedArgs as RequestRefundArgs;
+      // The order must come from this conversation's checkouts, so the agent
+      // cannot refund another buyer's order by guessing its ID
+      const orderResponse = await callAcpEndpoint('GET', `/api/orders/${encodeURIComponent(order_id)}`);
+      if (!orderResponse.ok) {
+        throw await toToolError(orderResponse, 'request refund');
+      }
+      const { checkout_id } = (await orderResponse.json()) as { checkout_id: string };
+      if (!checkoutIds.includes(checkout_id)) {
+        throw new Error(`Failed to request refund: order ${order_id} was not placed in this conversation`);
+      }
+      const refundData = { checkout_id, line_items, reason };
+      const response = await callAcpEndpoint('POST', `/api/orders/${encodeURIComponent(order_id)}/refunds`, refundData, toolCallId);
+      if (!response.ok) {
+        throw await toToolError(response, 'request refund');
+      }
+      const data = await response.json();
+      return JSON.stringify(data);
+    }
+
+    case 'list_saved_payment_methods': {
+      // Only card descriptions reach the agent; paying still needs the buyer
+      // to confirm in the payment form
+      const listArgs = parsedArgs as ListSavedPaymentMethodsArgs;
+      const response = await fetch(
+        `${BASE_URL}/api/payment/saved-payment-methods?checkout_id=${encodeURIComponent(listArgs.checkout_id)}`
+      );
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(`Failed to list saved payment methods: ${errorData?.error || response.statusText}`);
+      }
+      const data: SavedPaymentMethodsResponse = await response.json();
+      return JSON.stringify({
+        payment_methods: data.payment_methods.map(({ brand, last4, exp_month, exp_year }) => ({
+          brand,
+          last4,
+          exp_month,
+          exp_year,
+        })),
+        verification_required: data.verification_required,
+      });
+    }
+
     default:
       throw new Error(`Unknown tool: ${toolName}`);
   }
@@ -390,7 +681,7 @@ export async function POST(request: NextRequest): Promise<Response> {
     const existingMessages = loadConversation(conversationId);
 
     // If we have existing messages, use them. Otherwise use messages from request
-    let messages = existingMessages.length > 0 ? existingMessages : [...body.messages];
+    const messages = existingMessages.length > 0 ? existingMessages : [...body.messages];
 
     // If we loaded existing messages, append only the NEW user message (last one)
     if (existingMessages.length > 0 && body.messages.length > 0) {
@@ -426,7 +717,12 @@ export async function POST(request: NextRequest): Promise<Response> {
         // Execute all tool calls
         for (const toolCall of assistantMessage.tool_calls) {
           try {
-            const toolResult = await executeTool(toolCall.function.name, toolCall.function.arguments);
+            const toolResult = await executeTool(
+              toolCall.function.name,
+              toolCall.function.arguments,
+              toolCall.id,
+              findConversationCheckoutIds(messages)
+            );
 
             messages.push({
               role: 'tool',
@@ -4,18 +4,22 @@
  * Responsibilities:
  * - Returns the latest checkout state for a conversation
  * - Parses conversation file to find ready_for_payment checkout
+ * - Builds the payment summary (line items and totals) from the stored session
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { CheckoutSession } from '@/lib/types/checkout';
+import { PaymentSummary } from '@/lib/types/payment';
+import { getCatalogProducts } from '@/lib/catalog/productCatalog';
+import { readSessionsFromFile } from '@/lib/checkout/sessionStorage';
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
 const CONVERSATIONS_DIR = join(process.cwd(), 'conversations');
-const DEFAULT_CURRENCY = 'usd';
 
 // ============================================================================
 // INTERFACES
@@ -30,16 +34,41 @@ interface ConversationMessage {
 interface CheckoutData {
   id: string;
   status: string;
-  currency?: string;
-  totals?: Array<{ label: string; amount: number }>;
 }
 
 interface CheckoutResponse {
-  checkout: {
-    checkoutId: string;
-    amount: number;
-    currency: string;
-  } | null;
+  checkout: PaymentSummary | null;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Builds the payment summary for a checkout session
+ * @param checkout - Stored checkout session
+ * @returns Payment summary, or null if the session has no total
+ */
+function buildPaymentSummary(checkout: CheckoutSession): PaymentSummary | null {
+  const totalAmount = checkout.totals.find((total) => total.label === 'Total')?.amount;
+  if (!totalAmount) {
+    return null;
+  }
+
+  const products = getCatalogProducts();
+  return {
+    checkoutId: checkout.id,
+    amount: totalAmount,
+    currency: checkout.currency,
+    ...(checkout.buyer?.email && { buyerEmail: checkout.buyer.email }),
+    lineItems: checkout.line_items.map((lineItem) => ({
+      id: lineItem.id,
+      name: products.find((p) => p.id === lineItem.item.id)?.name || lineItem.item.id,
+      quantity: lineItem.item.quantity,
+      amount: lineItem.subtotal,
+    })),
+    totals: checkout.totals,
+  };
 }
 
 // ============================================================================
@@ -110,16 +139,11 @@ export async function GET(request: NextRequest): Promise<NextResponse<CheckoutRe
         }
       }
 
-      // Checkout is ready and not completed yet
-      const totalAmount = latestCheckout.totals?.find((total) => total.label === 'Total')?.amount;
-      if (totalAmount) {
-        return NextResponse.json({
-          checkout: {
-            checkoutId: latestCheckout.id,
-            amount: totalAmount,
-            currency: latestCheckout.currency || DEFAULT_CURRENCY,
-          },
-        });
+      // The stored session is authoritative: it may have been paid through a
+      // Stripe webhook or changed since the tool result was recorded
+      const checkout = readSessionsFromFile().get(latestCheckout.id);
+      if (checkout?.status === 'ready_for_payment') {
+        return NextResponse.json({ checkout: buildPaymentSummary(checkout) });
       }
     }
 
@@ -0,0 +1,98 @@
+/**
+ * API Route: Development Order Webhook Receiver
+ *
+ * Responsibilities:
+ * - Receives order events sent by the webhook dispatcher
+ * - Verifies the Merchant-Signature header
+ * - Lists received events for inspection during development
+ *
+ * Point ORDER_WEBHOOK_URL at http://localhost:3000/api/dev/order-webhooks to use it.
+ * Set ?fail=1 on the URL to reject deliveries and exercise retries and the outbox.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { OrderEvent } from '@/lib/types/webhook';
+import { verifyRequestSignature } from '@/lib/acp/signature';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_STORED_EVENTS = 100;
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Event received by this route
+ */
+interface ReceivedEvent {
+  received_at: string;
+  request_id: string | null;
+  signature_valid: boolean;
+  event: OrderEvent;
+}
+
+// In-memory only: cleared whenever the dev server restarts
+const receivedEvents: ReceivedEvent[] = [];
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Rejects requests outside development
+ * @returns 404 response in production, otherwise null
+ */
+function rejectOutsideDevelopment(): NextResponse | null {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  return null;
+}
+
+// ============================================================================
+// MAIN ENDPOINTS
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  const rejection = rejectOutsideDevelopment();
+  if (rejection) {
+    return rejection;
+  }
+
+  if (request.nextUrl.searchParams.get('fail')) {
+    return NextResponse.json({ error: 'Simulated failure' }, { status: 503 });
+  }
+
+  const body = await request.text();
+  const signatureValid = verifyRequestSignature(
+    request.headers.get('Timestamp') || '',
+    body,
+    request.headers.get('Merchant-Signature') || '',
+    process.env.ORDER_WEBHOOK_SECRET || ''
+  );
+
+  receivedEvents.unshift({
+    received_at: new Date().toISOString(),
+    request_id: request.headers.get('Request-Id'),
+    signature_valid: signatureValid,
+    event: JSON.parse(body),
+  });
+  receivedEvents.splice(MAX_STORED_EVENTS);
+
+  if (!signatureValid) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+  return NextResponse.json({ received: true });
+}
+
+export async function GET() {
+  const rejection = rejectOutsideDevelopment();
+  if (rejection) {
+    return rejection;
+  }
+
+  return NextResponse.json({ events: receivedEvents });
+}
@@ -0,0 +1,36 @@
+/**
+ * API Route: Digital Download
+ *
+ * Responsibilities:
+ * - Verifies the signed download link issued with an order
+ * - Redirects to the digital asset of the product
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCatalogProducts } from '@/lib/catalog/productCatalog';
+import { verifyDownloadLink } from '@/lib/checkout/digitalDelivery';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  const { productId } = await params;
+  const query = request.nextUrl.searchParams;
+
+  const isValid = verifyDownloadLink(
+    query.get('order_id') || '',
+    productId,
+    query.get('expires') || '',
+    query.get('signature') || ''
+  );
+  if (!isValid) {
+    return NextResponse.json({ error: 'Download link is invalid or has expired' }, { status: 403 });
+  }
+
+  const product = getCatalogProducts().find((p) => p.id === productId);
+  if (!product?.digital_asset_url) {
+    return NextResponse.json({ error: 'Product has no downloadable file' }, { status: 404 });
+  }
+
+  return NextResponse.redirect(product.digital_asset_url);
+}
@@ -0,0 +1,97 @@
+/**
+ * API Route: Cancel Order
+ *
+ * Merchant-only: callers authenticate with the MERCHANT_API_KEY bearer token.
+ *
+ * Responsibilities:
+ * - Cancels an order that has not shipped yet
+ * - Refunds whatever is still captured on the order through Stripe
+ * - Records the cancellation reason
+ * - Emits an order_updated webhook event
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CancelOrderRequest, Order } from '@/lib/types/order';
+import { readOrdersFromFile, writeOrdersToFile } from '@/lib/checkout/orderStorage';
+import { applyOrderTransition, assertCanApplyOrderTransition } from '@/lib/checkout/orderLifecycle';
+import { planRefund } from '@/lib/checkout/refunds';
+import { issueOrderRefund, recordOrderRefund, withOrderRefundLock } from '@/lib/stripe/refunds';
+import { createAcpError, readJsonBody } from '@/lib/acp/errors';
+import { emitOrderEvent } from '@/lib/webhooks/orderEvents';
+import { withMerchantMiddleware } from '@/lib/acp/middleware';
+import { withIdempotency } from '@/lib/acp/idempotency';
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+/**
+ * POST handler to cancel an order
+ * @param request - Next.js request object with optional reason
+ * @param params - Route parameters containing order ID
+ * @returns JSON response with the canceled order
+ */
+async function cancelOrder(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<Order>> {
+  const { id } = await params;
+  // The reason is optional, so an empty body is allowed
+  const body: CancelOrderRequest = (await request.clone().text())
+    ? await readJsonBody<CancelOrderRequest>(request)
+    : {};
+  if (body.reason !== undefined && typeof body.reason !== 'string') {
+    throw createAcpError('invalid', 'reason must be a string', '$.reason');
+  }
+
+  // Cancellation refunds the remaining balance, so it waits for other refunds
+  return withOrderRefundLock(id, async () => {
+    const orders = readOrdersFromFile();
+    const order = orders.get(id);
+    if (!order) {
+      throw createAcpError('not_found', `Order not found: ${id}`);
+    }
+
+    assertCanApplyOrderTransition(order, 'cancel');
+
+    let latestOrders = orders;
+    let latest = order;
+
+    // Every cancelable order has been paid, so the rest of the payment goes
+    // back to the buyer. The return policy covers returns, not cancellations.
+    if (order.total_amount - (order.refunded_amount || 0) > 0) {
+      const plan = planRefund(order, { override_policy: true });
+      const refund = await issueOrderRefund(
+        order,
+        plan,
+        body.reason || 'Order canceled',
+        `refund_${order.id}_cancel_${(order.refunds || []).length}`
+      );
+
+      // Re-read the order, which may have changed while Stripe was called, and
+      // record the refund before the cancellation so it is kept either way
+      latestOrders = readOrdersFromFile();
+      latest = latestOrders.get(id) || order;
+      recordOrderRefund(latest, refund);
+      latestOrders.set(id, latest);
+      writeOrdersToFile(latestOrders);
+
+      if (refund.status === 'failed' || refund.status === 'canceled') {
+        throw createAcpError(
+          'processing_error',
+          `Order ${order.id} was not canceled because its refund ${refund.status}`
+        );
+      }
+    }
+
+    applyOrderTransition(latest, 'cancel', { cancellation_reason: body.reason });
+
+    latestOrders.set(id, latest);
+    writeOrdersToFile(latestOrders);
+    emitOrderEvent('order_updated', latest, request.nextUrl.origin);
+
+    return NextResponse.json(latest);
+  });
+}
+
+export const POST = withMerchantMiddleware(withIdempotency(cancelOrder));
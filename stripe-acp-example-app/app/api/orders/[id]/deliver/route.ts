@@ -0,0 +1,51 @@
+/**
+ * API Route: Deliver Order
+ *
+ * Merchant-only: callers authenticate with the MERCHANT_API_KEY bearer token.
+ *
+ * Responsibilities:
+ * - Marks a shipped (or fulfilled digital) order as delivered
+ * - Emits an order_updated webhook event
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Order } from '@/lib/types/order';
+import { readOrdersFromFile, writeOrdersToFile } from '@/lib/checkout/orderStorage';
+import { applyOrderTransition } from '@/lib/checkout/orderLifecycle';
+import { createAcpError } from '@/lib/acp/errors';
+import { emitOrderEvent } from '@/lib/webhooks/orderEvents';
+import { withMerchantMiddleware } from '@/lib/acp/middleware';
+import { withIdempotency } from '@/lib/acp/idempotency';
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+/**
+ * POST handler to mark an order delivered
+ * @param request - Next.js request object
+ * @param params - Route parameters containing order ID
+ * @returns JSON response with the updated order
+ */
+async function deliverOrder(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<Order>> {
+  const { id } = await params;
+
+  const orders = readOrdersFromFile();
+  const order = orders.get(id);
+  if (!order) {
+    throw createAcpError('not_found', `Order not found: ${id}`);
+  }
+
+  applyOrderTransition(order, 'deliver');
+
+  orders.set(id, order);
+  writeOrdersToFile(orders);
+  emitOrderEvent('order_updated', order, request.nextUrl.origin);
+
+  return NextResponse.json(order);
+}
+
+export const POST = withMerchantMiddleware(withIdempotency(deliverOrder));
@@ -0,0 +1,86 @@
+/**
+ * API Route: Refund Order
+ *
+ * Open to agents (signed ACP requests) and merchant tools (MERCHANT_API_KEY
+ * bearer token). Agents must name the checkout the order was placed from, so
+ * they can only refund orders of their own buyer. Only merchant tools may
+ * override the refund policy.
+ *
+ * Responsibilities:
+ * - Issues full or partial Stripe refunds against the order's PaymentIntent
+ * - Applies the merchant refund policy unless a merchant tool overrides it
+ * - Records the refund and refunded total on the order
+ * - Emits an order_updated webhook event
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CreateRefundRequest, CreateRefundResponse } from '@/lib/types/order';
+import { readOrdersFromFile, writeOrdersToFile } from '@/lib/checkout/orderStorage';
+import { planRefund } from '@/lib/checkout/refunds';
+import { createAcpError, readJsonBody } from '@/lib/acp/errors';
+import { issueOrderRefund, recordOrderRefund, withOrderRefundLock } from '@/lib/stripe/refunds';
+import { emitOrderEvent } from '@/lib/webhooks/orderEvents';
+import { isMerchantRequest, withMerchantMiddleware } from '@/lib/acp/middleware';
+import { withIdempotency } from '@/lib/acp/idempotency';
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+/**
+ * POST handler to refund an order
+ * @param request - Next.js request object with optional amount, line items and reason
+ * @param params - Route parameters containing order ID
+ * @returns JSON response with the refund and updated order
+ */
+async function createRefund(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<CreateRefundResponse>> {
+  const { id } = await params;
+  const body = await readJsonBody<CreateRefundRequest>(request);
+  const fromMerchant = isMerchantRequest(request);
+  if (body.override_policy === true && !fromMerchant) {
+    throw createAcpError(
+      'invalid',
+      'override_policy is only available to merchant tools',
+      '$.override_policy',
+      403
+    );
+  }
+  if (!fromMerchant && (typeof body.checkout_id !== 'string' || !body.checkout_id)) {
+    throw createAcpError('missing', 'checkout_id is required to refund an order', '$.checkout_id');
+  }
+
+  // Refunds of one order run in turn, so each is planned against the last
+  return withOrderRefundLock(id, async () => {
+    // Orders of other checkouts look unknown, so agents cannot probe order IDs
+    const order = readOrdersFromFile().get(id);
+    if (!order || (!fromMerchant && order.checkout_id !== body.checkout_id)) {
+      throw createAcpError('not_found', `Order not found: ${id}`);
+    }
+
+    const plan = planRefund(order, body);
+
+    // Reuse the caller's Idempotency-Key so a retried request is not refunded twice
+    const idempotencyKey = request.headers.get('Idempotency-Key');
+    const refund = await issueOrderRefund(
+      order,
+      plan,
+      body.reason,
+      idempotencyKey ? `refund_${order.id}_${idempotencyKey}` : undefined
+    );
+
+    // Re-read the order, which may have changed while Stripe was called
+    const orders = readOrdersFromFile();
+    const latest = orders.get(id) || order;
+    recordOrderRefund(latest, refund);
+    orders.set(id, latest);
+    writeOrdersToFile(orders);
+    emitOrderEvent('order_updated', latest, request.nextUrl.origin);
+
+    return NextResponse.json({ refund, order: latest }, { status: 201 });
+  });
+}
+
+export const POST = withMerchantMiddleware(withIdempotency(createRefund), { allowAgent: true });
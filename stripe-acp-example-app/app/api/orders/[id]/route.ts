@@ -0,0 +1,38 @@
+/**
+ * API Route: Get Order
+ *
+ * Responsibilities:
+ * - Returns a stored order with its line items, address and fulfillment choice
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Order } from '@/lib/types/order';
+import { readOrdersFromFile } from '@/lib/checkout/orderStorage';
+import { createAcpError } from '@/lib/acp/errors';
+import { withAcpMiddleware } from '@/lib/acp/middleware';
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+/**
+ * GET handler to retrieve an order
+ * @param request - Next.js request object
+ * @param params - Route parameters containing order ID
+ * @returns JSON response with the order
+ */
+async function getOrder(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<Order>> {
+  const { id } = await params;
+
+  const order = readOrdersFromFile().get(id);
+  if (!order) {
+    throw createAcpError('not_found', `Order not found: ${id}`);
+  }
+
+  return NextResponse.json(order);
+}
+
+export const GET = withAcpMiddleware(getOrder);
@@ -0,0 +1,91 @@
+/**
+ * API Route: Ship Order
+ *
+ * Merchant-only: callers authenticate with the MERCHANT_API_KEY bearer token.
+ *
+ * Responsibilities:
+ * - Marks a fulfilled order as shipped
+ * - Records carrier and tracking number
+ * - Emits an order_updated webhook event
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Order, ShipOrderRequest } from '@/lib/types/order';
+import { readOrdersFromFile, writeOrdersToFile } from '@/lib/checkout/orderStorage';
+import { applyOrderTransition } from '@/lib/checkout/orderLifecycle';
+import { createAcpError, readJsonBody } from '@/lib/acp/errors';
+import { emitOrderEvent } from '@/lib/webhooks/orderEvents';
+import { withMerchantMiddleware } from '@/lib/acp/middleware';
+import { withIdempotency } from '@/lib/acp/idempotency';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Checks whether a value is an absolute http or https URL
+ * @param value - Value to check
+ * @returns True if the value parses as an http(s) URL
+ */
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+/**
+ * POST handler to ship an order
+ * @param request - Next.js request object with carrier and tracking number
+ * @param params - Route parameters containing order ID
+ * @returns JSON response with the updated order
+ */
+async function shipOrder(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<Order>> {
+  const { id } = await params;
+  const body = await readJsonBody<ShipOrderRequest>(request);
+
+  if (typeof body.carrier !== 'string' || !body.carrier.trim()) {
+    throw createAcpError('missing', 'carrier is required', '$.carrier');
+  }
+  if (typeof body.tracking_number !== 'string' || !body.tracking_number.trim()) {
+    throw createAcpError('missing', 'tracking_number is required', '$.tracking_number');
+  }
+  // The tracking URL is rendered as a link on the buyer's order page
+  if (body.tracking_url !== undefined && !isHttpUrl(body.tracking_url)) {
+    throw createAcpError('invalid', 'tracking_url must be an http or https URL', '$.tracking_url');
+  }
+
+  const orders = readOrdersFromFile();
+  const order = orders.get(id);
+  if (!order) {
+    throw createAcpError('not_found', `Order not found: ${id}`);
+  }
+
+  applyOrderTransition(order, 'ship', {
+    shipment: {
+      carrier: body.carrier.trim(),
+      tracking_number: body.tracking_number.trim(),
+      ...(body.tracking_url && { tracking_url: body.tracking_url }),
+    },
+  });
+
+  orders.set(id, order);
+  writeOrdersToFile(orders);
+  emitOrderEvent('order_updated', order, request.nextUrl.origin);
+
+  return NextResponse.json(order);
+}
+
+export const POST = withMerchantMiddleware(withIdempotency(shipOrder));
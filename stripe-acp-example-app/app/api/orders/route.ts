@@ -0,0 +1,116 @@
+/**
+ * API Route: List Orders
+ *
+ * Responsibilities:
+ * - Returns stored orders, newest first
+ * - Filters by status, checkout session and creation date
+ * - Paginates with limit and offset
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { OrderListResponse, OrderStatus } from '@/lib/types/order';
+import { readOrdersFromFile } from '@/lib/checkout/orderStorage';
+import { createAcpError } from '@/lib/acp/errors';
+import { withAcpMiddleware } from '@/lib/acp/middleware';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ORDER_STATUSES: OrderStatus[] = [
+  'confirmed',
+  'fulfilled',
+  'shipped',
+  'delivered',
+  'canceled',
+];
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Parses an RFC 3339 date filter
+ * @param value - Query parameter value
+ * @param name - Query parameter name, used in errors
+ * @returns Milliseconds since epoch, or undefined when not given
+ */
+function parseDateParam(value: string | null, name: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw createAcpError('invalid', `${name} must be an RFC 3339 date-time`, `$.${name}`);
+  }
+  return time;
+}
+
+/**
+ * Parses a non-negative integer query parameter
+ * @param value - Query parameter value
+ * @param name - Query parameter name, used in errors
+ * @param defaultValue - Value used when not given
+ * @returns Parsed integer
+ */
+function parseIntegerParam(value: string | null, name: string, defaultValue: number): number {
+  if (value === null) {
+    return defaultValue;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw createAcpError('invalid', `${name} must be a non-negative integer`, `$.${name}`);
+  }
+  return parsed;
+}
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+/**
+ * GET handler to list orders
+ * @param request - Next.js request object with optional status, checkout_id,
+ * created_after, created_before, limit and offset query parameters
+ * @returns JSON response with a page of orders
+ */
+async function listOrders(request: NextRequest): Promise<NextResponse<OrderListResponse>> {
+  const searchParams = request.nextUrl.searchParams;
+
+  const status = searchParams.get('status');
+  if (status && !ORDER_STATUSES.includes(status as OrderStatus)) {
+    throw createAcpError(
+      'invalid',
+      `status must be one of: ${ORDER_STATUSES.join(', ')}`,
+      '$.status'
+    );
+  }
+  const checkoutId = searchParams.get('checkout_id');
+  const createdAfter = parseDateParam(searchParams.get('created_after'), 'created_after');
+  const createdBefore = parseDateParam(searchParams.get('created_before'), 'created_before');
+  const limit = Math.min(parseIntegerParam(searchParams.get('limit'), 'limit', DEFAULT_LIMIT), MAX_LIMIT);
+  const offset = parseIntegerParam(searchParams.get('offset'), 'offset', 0);
+
+  const orders = Array.from(readOrdersFromFile().values())
+    .filter((order) => {
+      const createdAt = Date.parse(order.created_at);
+      return (
+        (!status || order.status === status) &&
+        (!checkoutId || order.checkout_id === checkoutId) &&
+        (createdAfter === undefined || createdAt >= createdAfter) &&
+        (createdBefore === undefined || createdAt < createdBefore)
+      );
+    })
+    .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at));
+
+  return NextResponse.json({
+    orders: orders.slice(offset, offset + limit),
+    total: orders.length,
+    limit,
+    offset,
+  });
+}
+
+export const GET = withAcpMiddleware(listOrders);
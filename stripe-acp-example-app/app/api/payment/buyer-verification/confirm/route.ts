@@ -0,0 +1,46 @@
+/**
+ * API Route: Confirm Buyer Verification Code
+ *
+ * Responsibilities:
+ * - Receives the checkout session ID and the code the buyer entered
+ * - Marks the buyer email of the checkout as verified when the code matches
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { VerifyBuyerRequest } from '@/lib/types/payment';
+import { readSessionsFromFile } from '@/lib/checkout/sessionStorage';
+import { checkVerificationCode } from '@/lib/stripe/buyerVerification';
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  const { checkout_id: checkoutId, code }: VerifyBuyerRequest = await request.json();
+
+  if (!checkoutId || typeof code !== 'string' || !code) {
+    return NextResponse.json({ error: 'checkout_id and code are required' }, { status: 400 });
+  }
+
+  const checkout = readSessionsFromFile().get(checkoutId);
+  if (!checkout) {
+    return NextResponse.json({ error: `Checkout session not found: ${checkoutId}` }, { status: 404 });
+  }
+
+  const buyerEmail = checkout.buyer?.email;
+  if (!buyerEmail) {
+    return NextResponse.json({ error: 'The checkout has no buyer email to verify' }, { status: 400 });
+  }
+
+  switch (checkVerificationCode(checkoutId, buyerEmail, code)) {
+    case 'verified':
+      return NextResponse.json({ verified: true });
+    case 'invalid_code':
+      return NextResponse.json({ error: 'The code is not correct' }, { status: 400 });
+    case 'expired':
+      return NextResponse.json(
+        { error: 'The code has expired, please request a new one' },
+        { status: 410 }
+      );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * API Route: Send Buyer Verification Code
+ *
+ * Responsibilities:
+ * - Receives the checkout session ID from frontend
+ * - Emails a one-time code to the buyer email of the checkout, which the
+ *   buyer enters to use their saved cards
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SendVerificationCodeRequest } from '@/lib/types/payment';
+import { readSessionsFromFile } from '@/lib/checkout/sessionStorage';
+import { sendVerificationCode } from '@/lib/stripe/buyerVerification';
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  const { checkout_id: checkoutId }: SendVerificationCodeRequest = await request.json();
+
+  if (!checkoutId) {
+    return NextResponse.json({ error: 'checkout_id is required' }, { status: 400 });
+  }
+
+  const checkout = readSessionsFromFile().get(checkoutId);
+  if (!checkout) {
+    return NextResponse.json({ error: `Checkout session not found: ${checkoutId}` }, { status: 404 });
+  }
+
+  const buyerEmail = checkout.buyer?.email;
+  if (!buyerEmail) {
+    return NextResponse.json({ error: 'The checkout has no buyer email to verify' }, { status: 400 });
+  }
+
+  try {
+    if (!(await sendVerificationCode(checkoutId, buyerEmail))) {
+      return NextResponse.json(
+        { error: 'A code was sent moments ago, please wait before requesting another' },
+        { status: 429 }
+      );
+    }
+    return NextResponse.json({ sent: true });
+  } catch (error) {
+    console.error('Error sending verification code:', error);
+    return NextResponse.json({ error: 'Failed to send verification code' }, { status: 500 });
+  }
+}
@@ -2,36 +2,161 @@
  * API Route: Create Payment Intent
  *
  * Responsibilities:
- * - Receives amount and currency from frontend
- * - Creates a PaymentIntent with Stripe
+ * - Receives the checkout session ID from frontend
+ * - Computes amount and currency from the stored checkout session
+ * - Creates a PaymentIntent bound to the checkout via metadata, or reuses
+ *   the one already created for it
+ * - Returns a PaymentIntent that is still processing instead of creating a
+ *   second one, and holds the checkout for it
+ * - Attaches the buyer's Stripe Customer, once the buyer verified their
+ *   email, so saved cards can pay for it
  * - Returns client_secret to the frontend
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { CreatePaymentIntentRequest } from '@/lib/types/payment';
+import { readSessionsFromFile } from '@/lib/checkout/sessionStorage';
+import {
+  readPaymentIntentsFromFile,
+  writePaymentIntentsToFile,
+} from '@/lib/stripe/paymentIntentStorage';
+import { getOrCreateCustomer } from '@/lib/stripe/customers';
+import { isBuyerVerified } from '@/lib/stripe/buyerVerification';
+import { holdCheckoutForProcessingPayment } from '@/lib/stripe/payments';
 import { stripe } from '@/lib/stripe/client';
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Statuses in which a PaymentIntent can still be confirmed by the buyer
+ */
+const REUSABLE_STATUSES: Stripe.PaymentIntent.Status[] = [
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+];
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Finds the PaymentIntent already created for a checkout and brings its
+ * amount up to date with the checkout total. A processing PaymentIntent is
+ * returned unchanged: the buyer has already paid and must not pay again.
+ * @param checkoutId - Checkout session ID
+ * @param amount - Checkout total in minor units
+ * @param currency - Checkout currency
+ * @param customerId - Stripe Customer of the buyer, if known
+ * @returns Reusable or processing PaymentIntent, or null when a new one is needed
+ */
+async function findReusablePaymentIntent(
+  checkoutId: string,
+  amount: number,
+  currency: string,
+  customerId: string | undefined
+): Promise<Stripe.PaymentIntent | null> {
+  const paymentIntentId = readPaymentIntentsFromFile().get(checkoutId);
+  if (!paymentIntentId) {
+    return null;
+  }
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+  if (paymentIntent.status === 'processing') {
+    return paymentIntent;
+  }
+  if (!REUSABLE_STATUSES.includes(paymentIntent.status) || paymentIntent.currency !== currency) {
+    return null;
+  }
+
+  // The buyer email changed since the PaymentIntent was created
+  const paymentIntentCustomerId =
+    typeof paymentIntent.customer === 'string' ? paymentIntent.customer : paymentIntent.customer?.id;
+  if (paymentIntentCustomerId !== customerId) {
+    return null;
+  }
+
+  if (paymentIntent.amount === amount) {
+    return paymentIntent;
+  }
+
+  // The cart changed since the PaymentIntent was created; one that is midway
+  // through authentication is replaced rather than updated
+  if (paymentIntent.status === 'requires_action') {
+    return null;
+  }
+  return stripe.paymentIntents.update(paymentIntent.id, { amount });
+}
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
 export async function POST(request: NextRequest) {
-  const { amount, currency } = await request.json();
+  const { checkout_id: checkoutId }: CreatePaymentIntentRequest = await request.json();
 
-  if (!amount || amount <= 0) {
-    return NextResponse.json({ error: 'Valid amount is required' }, { status: 400 });
+  if (!checkoutId) {
+    return NextResponse.json({ error: 'checkout_id is required' }, { status: 400 });
+  }
+
+  const checkout = readSessionsFromFile().get(checkoutId);
+  if (!checkout) {
+    return NextResponse.json({ error: `Checkout session not found: ${checkoutId}` }, { status: 404 });
   }
 
-  if (!currency) {
-    return NextResponse.json({ error: 'Currency is required' }, { status: 400 });
+  if (checkout.status !== 'ready_for_payment') {
+    return NextResponse.json(
+      { error: `Checkout is not ready for payment (status: ${checkout.status})` },
+      { status: 409 }
+    );
+  }
+
+  const amount = checkout.totals.find((t) => t.label === 'Total')?.amount;
+  if (!amount || amount <= 0) {
+    return NextResponse.json({ error: 'Total amount not found in checkout' }, { status: 500 });
   }
 
   try {
-    const paymentIntent = await stripe.paymentIntents.create({
+    // An unverified email could belong to someone else, so their Customer
+    // and its saved cards stay out of the payment
+    const buyerEmail = checkout.buyer?.email;
+    const customerId =
+      buyerEmail && isBuyerVerified(checkoutId, buyerEmail)
+        ? await getOrCreateCustomer({ ...checkout.buyer, email: buyerEmail })
+        : undefined;
+    let paymentIntent = await findReusablePaymentIntent(
+      checkoutId,
       amount,
-      currency,
-      automatic_payment_methods: {
-        enabled: true,
-      },
-    });
+      checkout.currency,
+      customerId
+    );
+
+    if (paymentIntent?.status === 'processing') {
+      holdCheckoutForProcessingPayment(checkoutId, paymentIntent);
+    } else if (!paymentIntent) {
+      paymentIntent = await stripe.paymentIntents.create({
+        amount,
+        currency: checkout.currency,
+        ...(customerId && { customer: customerId }),
+        automatic_payment_methods: {
+          enabled: true,
+        },
+        metadata: { checkout_id: checkoutId },
+      });
+
+      const paymentIntents = readPaymentIntentsFromFile();
+      paymentIntents.set(checkoutId, paymentIntent.id);
+      writePaymentIntentsToFile(paymentIntents);
+    }
 
     return NextResponse.json({
       client_secret: paymentIntent.client_secret,
+      status: paymentIntent.status,
+      amount,
+      currency: checkout.currency,
     });
   } catch (error) {
     let errorMessage = 'Failed to create PaymentIntent';
@@ -0,0 +1,77 @@
+/**
+ * API Route: Create Setup Intent
+ *
+ * Responsibilities:
+ * - Receives the checkout session ID from frontend
+ * - Finds or creates the Stripe Customer for the buyer email of the checkout,
+ *   once the buyer verified it
+ * - Creates a SetupIntent that saves a card on that Customer
+ * - Returns client_secret to the frontend
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CreateSetupIntentRequest } from '@/lib/types/payment';
+import { readSessionsFromFile } from '@/lib/checkout/sessionStorage';
+import { getOrCreateCustomer } from '@/lib/stripe/customers';
+import { isBuyerVerified } from '@/lib/stripe/buyerVerification';
+import { stripe } from '@/lib/stripe/client';
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  const { checkout_id: checkoutId }: CreateSetupIntentRequest = await request.json();
+
+  if (!checkoutId) {
+    return NextResponse.json({ error: 'checkout_id is required' }, { status: 400 });
+  }
+
+  const checkout = readSessionsFromFile().get(checkoutId);
+  if (!checkout) {
+    return NextResponse.json({ error: `Checkout session not found: ${checkoutId}` }, { status: 404 });
+  }
+
+  if (checkout.status !== 'ready_for_payment') {
+    return NextResponse.json(
+      { error: `Checkout is not ready for payment (status: ${checkout.status})` },
+      { status: 409 }
+    );
+  }
+
+  const buyerEmail = checkout.buyer?.email;
+  if (!buyerEmail) {
+    return NextResponse.json(
+      { error: 'A buyer email is required to save a payment method' },
+      { status: 400 }
+    );
+  }
+
+  if (!isBuyerVerified(checkoutId, buyerEmail)) {
+    return NextResponse.json(
+      { error: 'Verify the buyer email before saving a payment method' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const customerId = await getOrCreateCustomer({ ...checkout.buyer, email: buyerEmail });
+
+    // Saved cards are only used while the buyer is present to confirm them
+    const setupIntent = await stripe.setupIntents.create({
+      customer: customerId,
+      payment_method_types: ['card'],
+      usage: 'on_session',
+      metadata: { checkout_id: checkoutId },
+    });
+
+    return NextResponse.json({ client_secret: setupIntent.client_secret });
+  } catch (error) {
+    let errorMessage = 'Failed to create SetupIntent';
+    if (error instanceof Error) {
+      errorMessage = error.message;
+    }
+    console.error('Error creating SetupIntent:', error);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
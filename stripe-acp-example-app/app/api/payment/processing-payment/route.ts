@@ -0,0 +1,58 @@
+/**
+ * API Route: Processing Payment
+ *
+ * Responsibilities:
+ * - Receives the checkout session ID and the PaymentIntent the buyer confirmed
+ * - Checks with Stripe that the PaymentIntent is bound to the checkout and
+ *   still processing
+ * - Moves the checkout to in_progress so the payment form is not offered
+ *   again while the payment settles
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ProcessingPaymentRequest } from '@/lib/types/payment';
+import { readSessionsFromFile } from '@/lib/checkout/sessionStorage';
+import { holdCheckoutForProcessingPayment } from '@/lib/stripe/payments';
+import { stripe } from '@/lib/stripe/client';
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  const {
+    checkout_id: checkoutId,
+    payment_intent_id: paymentIntentId,
+  }: ProcessingPaymentRequest = await request.json();
+
+  if (!checkoutId || !paymentIntentId) {
+    return NextResponse.json(
+      { error: 'checkout_id and payment_intent_id are required' },
+      { status: 400 }
+    );
+  }
+
+  if (!readSessionsFromFile().has(checkoutId)) {
+    return NextResponse.json({ error: `Checkout session not found: ${checkoutId}` }, { status: 404 });
+  }
+
+  try {
+    // The client's word is not enough: the status is read from Stripe
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (!holdCheckoutForProcessingPayment(checkoutId, paymentIntent)) {
+      return NextResponse.json(
+        { error: `PaymentIntent ${paymentIntentId} is not a processing payment for this checkout` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ status: readSessionsFromFile().get(checkoutId)?.status });
+  } catch (error) {
+    let errorMessage = 'Failed to record processing payment';
+    if (error instanceof Error) {
+      errorMessage = error.message;
+    }
+    console.error('Error recording processing payment:', error);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
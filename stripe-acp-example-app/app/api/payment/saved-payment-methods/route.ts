@@ -0,0 +1,67 @@
+/**
+ * API Route: Saved Payment Methods
+ *
+ * Responsibilities:
+ * - Identifies the buyer of a checkout session by email, once they verified
+ *   it with an emailed code
+ * - Returns the cards saved on their Stripe Customer, without card numbers
+ * - Returns an empty list for unverified buyers, buyers without an email and
+ *   buyers without earlier payments
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SavedPaymentMethodsResponse } from '@/lib/types/payment';
+import { readSessionsFromFile } from '@/lib/checkout/sessionStorage';
+import { findCustomerId, listSavedCards } from '@/lib/stripe/customers';
+import { isBuyerVerified } from '@/lib/stripe/buyerVerification';
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+/**
+ * GET handler to list the saved cards of a checkout's buyer
+ * @param request - Next.js request object with checkout_id query parameter
+ * @returns JSON response with saved payment methods
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<SavedPaymentMethodsResponse | { error: string }>> {
+  const checkoutId = request.nextUrl.searchParams.get('checkout_id');
+
+  if (!checkoutId) {
+    return NextResponse.json({ error: 'checkout_id is required' }, { status: 400 });
+  }
+
+  const checkout = readSessionsFromFile().get(checkoutId);
+  if (!checkout) {
+    return NextResponse.json({ error: `Checkout session not found: ${checkoutId}` }, { status: 404 });
+  }
+
+  const buyerEmail = checkout.buyer?.email;
+  if (!buyerEmail) {
+    return NextResponse.json({ payment_methods: [], verification_required: false });
+  }
+
+  // Anyone can type an email into a checkout, so the buyer has to prove they
+  // own it first. Unverified buyers get the same answer whether or not the
+  // email has saved cards.
+  if (!isBuyerVerified(checkoutId, buyerEmail)) {
+    return NextResponse.json({ payment_methods: [], verification_required: true });
+  }
+
+  const customerId = findCustomerId(buyerEmail);
+  if (!customerId) {
+    return NextResponse.json({ payment_methods: [], verification_required: false });
+  }
+
+  try {
+    return NextResponse.json({
+      payment_methods: await listSavedCards(customerId),
+      verification_required: false,
+    });
+  } catch (error) {
+    console.error('Error listing saved payment methods:', error);
+    return NextResponse.json({ error: 'Failed to list saved payment methods' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * API Route: Stripe Webhook
+ *
+ * Responsibilities:
+ * - Verifies the Stripe-Signature header against STRIPE_WEBHOOK_SECRET
+ * - Reconciles orders from payment_intent.succeeded, payment_intent.payment_failed
+ *   and charge.refunded events
+ * - Returns 2xx once an event is handled so Stripe stops redelivering it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { stripe } from '@/lib/stripe/client';
+import { handleStripeEvent } from '@/lib/stripe/webhookHandlers';
+
+// ============================================================================
+// MAIN ENDPOINT
+// ============================================================================
+
+/**
+ * POST handler for Stripe webhook events
+ * @param request - Next.js request object with the raw event payload
+ * @returns JSON response acknowledging the event, or an error response that
+ * makes Stripe retry it
+ */
+export async function POST(request: NextRequest) {
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!webhookSecret) {
+    console.error('STRIPE_WEBHOOK_SECRET environment variable is required for Stripe webhooks');
+    return NextResponse.json({ error: 'Webhook secret not configured' }, { status: 500 });
+  }
+
+  const signature = request.headers.get('Stripe-Signature');
+  if (!signature) {
+    return NextResponse.json({ error: 'Stripe-Signature header is required' }, { status: 400 });
+  }
+
+  // The signature covers the raw body, so it must be read before parsing
+  const payload = await request.text();
+  let event: Stripe.Event;
+  try {
+    event = stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Invalid signature';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+
+  try {
+    const result = await handleStripeEvent(event, request.nextUrl.origin);
+    return NextResponse.json({ received: true, result });
+  } catch (error) {
+    // A 5xx makes Stripe retry the event later
+    console.error(`Error handling Stripe event ${event.id}:`, error);
+    return NextResponse.json({ error: 'Failed to handle event' }, { status: 500 });
+  }
+}
@@ -2,116 +2,517 @@
  * Payment Form Component
  *
  * Responsibilities:
- * - Collects payment card details using Stripe Elements
- * - Creates PaymentMethod via Stripe.js
- * - Creates SharedPaymentToken via backend API
- * - Passes SPT token to agent via chat message
+ * - Shows the line items and totals of the checkout session being paid
+ * - Collects payment details with the Stripe Payment Element (any payment
+ *   method enabled on the account) or, in card mode, separate card fields
+ * - Offers the cards a returning buyer saved, and saves new cards on the
+ *   buyer's Stripe Customer through a SetupIntent when asked to, once the
+ *   buyer verified their email with an emailed code
+ * - Confirms the checkout's PaymentIntent, running 3-D Secure and other
+ *   required actions in place
+ * - Reports succeeded and processing payments to the page, which passes the
+ *   PaymentIntent ID to the agent
  */
 
 'use client';
 
-import { useState, FormEvent } from 'react';
-import { loadStripe, StripeElementsOptions } from '@stripe/stripe-js';
+import { useState, useEffect, FormEvent } from 'react';
+import {
+  loadStripe,
+  PaymentIntent,
+  PaymentIntentResult,
+  SetupIntent,
+  StripeElementsOptions,
+} from '@stripe/stripe-js';
 import {
   Elements,
+  PaymentElement,
   CardNumberElement,
   CardExpiryElement,
   CardCvcElement,
   useStripe,
   useElements,
 } from '@stripe/react-stripe-js';
+import {
+  CreatePaymentIntentResponse,
+  PaymentSummary,
+  SavedPaymentMethod,
+  SavedPaymentMethodsResponse,
+} from '@/lib/types/payment';
 
 // ============================================================================
 // INTERFACES
 // ============================================================================
 
+/**
+ * How payment details are collected: the Payment Element, or the separate
+ * card number, expiry and CVC fields
+ */
+export type PaymentFormMode = 'payment_element' | 'card';
+
 interface PaymentFormProps {
-  checkoutId: string;
-  amount: number;
-  currency: string;
+  summary: PaymentSummary;
+  mode?: PaymentFormMode;
   onPaymentComplete: (paymentIntentId: string) => void;
+  onPaymentProcessing: (paymentIntentId: string) => void;
   onError: (error: string) => void;
 }
 
+interface BuyerVerificationProps {
+  checkoutId: string;
+  buyerEmail: string;
+  onVerified: () => void;
+}
+
+interface PaymentFormInternalProps extends PaymentFormProps {
+  buyerVerified: boolean;
+  savedMethods: SavedPaymentMethod[];
+  selectedMethodId: string | null;
+  onSelectMethod: (paymentMethodId: string | null) => void;
+  saveCard: boolean;
+  onSaveCardChange: (saveCard: boolean) => void;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Formats an amount in minor units as a currency string
+ * @param amount - Amount in minor units
+ * @param currency - Currency code
+ * @returns Formatted amount, e.g. "$12.50"
+ */
+function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amount / 100);
+}
+
+/**
+ * Creates (or reuses) the PaymentIntent for a checkout session
+ * @param checkoutId - Checkout session ID
+ * @returns PaymentIntent client secret and status; processing means an
+ * earlier payment for the checkout is still settling
+ * @throws Error if the PaymentIntent cannot be created
+ */
+async function createPaymentIntent(
+  checkoutId: string
+): Promise<Pick<CreatePaymentIntentResponse, 'client_secret' | 'status'>> {
+  const response = await fetch('/api/payment/create-payment-intent', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      checkout_id: checkoutId,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to create payment intent');
+  }
+
+  const { client_secret, status }: CreatePaymentIntentResponse = await response.json();
+  return { client_secret, status };
+}
+
+/**
+ * Creates a SetupIntent that saves a card for the buyer of a checkout session
+ * @param checkoutId - Checkout session ID
+ * @returns SetupIntent client secret
+ * @throws Error if the SetupIntent cannot be created
+ */
+async function createSetupIntent(checkoutId: string): Promise<string> {
+  const response = await fetch('/api/payment/create-setup-intent', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      checkout_id: checkoutId,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to create setup intent');
+  }
+
+  const { client_secret: clientSecret } = await response.json();
+  return clientSecret;
+}
+
+/**
+ * Returns the ID of the card saved by a succeeded SetupIntent
+ * @param setupIntent - SetupIntent returned by confirmation
+ * @returns PaymentMethod ID
+ * @throws Error if the card was not saved
+ */
+function getSavedPaymentMethodId(setupIntent: SetupIntent): string {
+  const paymentMethod = setupIntent.payment_method;
+  if (setupIntent.status !== 'succeeded' || !paymentMethod) {
+    throw new Error(
+      setupIntent.last_setup_error?.message || `Card could not be saved. Status: ${setupIntent.status}`
+    );
+  }
+  return typeof paymentMethod === 'string' ? paymentMethod : paymentMethod.id;
+}
+
+/**
+ * Describes a saved card, e.g. "Visa ending 4242 (exp. 12/34)"
+ * @param paymentMethod - Saved card
+ * @returns Card label
+ */
+function describeSavedCard(paymentMethod: SavedPaymentMethod): string {
+  const brand = paymentMethod.brand.charAt(0).toUpperCase() + paymentMethod.brand.slice(1);
+  const expiry = `${String(paymentMethod.exp_month).padStart(2, '0')}/${String(paymentMethod.exp_year).slice(-2)}`;
+  return `${brand} ending ${paymentMethod.last4} (exp. ${expiry})`;
+}
+
+/**
+ * Posts to a buyer verification endpoint
+ * @param path - Endpoint path
+ * @param body - Request body
+ * @throws Error with the server message if the request fails
+ */
+async function postVerificationRequest(path: string, body: Record<string, string>): Promise<void> {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    throw new Error(errorData?.error || 'Verification failed');
+  }
+}
+
+// ============================================================================
+// BUYER VERIFICATION COMPONENT
+// ============================================================================
+
+/**
+ * Lets the buyer prove they own the checkout email with a one-time code,
+ * which unlocks their saved cards and card saving
+ * @param checkoutId - Checkout session being paid
+ * @param buyerEmail - Buyer email the code is sent to
+ * @param onVerified - Callback once the code was accepted
+ * @returns Verification prompt JSX
+ */
+function BuyerVerification({ checkoutId, buyerEmail, onVerified }: BuyerVerificationProps) {
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Runs a verification request, showing its error if it fails
+   * @param request - Request to run
+   */
+  const submit = async (request: () => Promise<void>): Promise<void> => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await request();
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : 'Verification failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const sendCode = (): Promise<void> =>
+    submit(async () => {
+      await postVerificationRequest('/api/payment/buyer-verification', { checkout_id: checkoutId });
+      setCodeSent(true);
+    });
+
+  const confirmCode = (): Promise<void> =>
+    submit(async () => {
+      await postVerificationRequest('/api/payment/buyer-verification/confirm', {
+        checkout_id: checkoutId,
+        code,
+      });
+      onVerified();
+    });
+
+  return (
+    <div className="text-sm space-y-2 mb-4">
+      {codeSent ? (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder={`Code sent to ${buyerEmail}`}
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            className="flex-1 border border-gray-300 rounded-lg px-3 py-2"
+          />
+          <button
+            type="button"
+            onClick={confirmCode}
+            disabled={isSubmitting || !code}
+            className="px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:text-gray-400"
+          >
+            Verify
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={sendCode}
+          disabled={isSubmitting}
+          className="text-blue-600 hover:underline disabled:text-gray-400"
+        >
+          Verify {buyerEmail} to use or save cards
+        </button>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
+
 // ============================================================================
 // PAYMENT FORM INTERNAL COMPONENT
 // ============================================================================
 
 /**
  * Internal payment form component
- * @param checkoutId - Checkout session ID
- * @param amount - Total amount in cents
- * @param currency - Currency code
+ * @param summary - Checkout session being paid
+ * @param mode - How payment details are collected
  * @param onPaymentComplete - Callback when payment succeeds
+ * @param onPaymentProcessing - Callback when payment is accepted but not yet confirmed
  * @param onError - Callback when payment fails
+ * @param buyerVerified - Whether the buyer verified the checkout email
+ * @param savedMethods - Cards the buyer saved in earlier purchases
+ * @param selectedMethodId - Saved card to pay with, or null for new details
+ * @param onSelectMethod - Callback when the buyer picks a saved card or new details
+ * @param saveCard - Whether new card details are saved for future purchases
+ * @param onSaveCardChange - Callback when the buyer toggles card saving
  * @returns Payment form JSX
  */
-function PaymentFormInternal({ checkoutId, amount, currency, onPaymentComplete, onError }: PaymentFormProps) {
+function PaymentFormInternal({
+  summary,
+  mode = 'payment_element',
+  onPaymentComplete,
+  onPaymentProcessing,
+  onError,
+  buyerVerified,
+  savedMethods,
+  selectedMethodId,
+  onSelectMethod,
+  saveCard,
+  onSaveCardChange,
+}: PaymentFormInternalProps) {
   const stripe = useStripe();
   const elements = useElements();
   const [isProcessing, setIsProcessing] = useState(false);
 
   /**
-   * Handles form submission and payment processing
-   * @param event - Form submit event
+   * Reports the outcome of a confirmed PaymentIntent
+   * @param paymentIntent - PaymentIntent returned by confirmation
+   * @throws Error if the payment did not go through
    */
-  const handleSubmit = async (event: FormEvent): Promise<void> => {
-    event.preventDefault();
+  const handlePaymentIntentStatus = (paymentIntent: PaymentIntent): void => {
+    switch (paymentIntent.status) {
+      case 'succeeded':
+        onPaymentComplete(paymentIntent.id);
+        return;
+      case 'processing':
+        // Bank debits and similar methods settle later; the Stripe webhook
+        // completes the checkout once the payment succeeds
+        onPaymentProcessing(paymentIntent.id);
+        return;
+      case 'requires_action':
+        throw new Error('Payment authentication was not completed');
+      case 'requires_payment_method':
+        throw new Error(
+          paymentIntent.last_payment_error?.message || 'Payment was declined, please try another payment method'
+        );
+      default:
+        throw new Error(`Payment not successful. Status: ${paymentIntent.status}`);
+    }
+  };
+
+  /**
+   * Gets the checkout's PaymentIntent and confirms it. If an earlier payment
+   * for the checkout is still processing, that payment is returned instead of
+   * being confirmed again, so the buyer is not charged twice.
+   * @param confirm - Confirms the PaymentIntent with the chosen details
+   * @returns Confirmed or processing PaymentIntent
+   * @throws Error if the PaymentIntent cannot be created or confirmed
+   */
+  const confirmCheckoutPaymentIntent = async (
+    confirm: (clientSecret: string) => Promise<PaymentIntentResult>
+  ): Promise<PaymentIntent> => {
+    if (!stripe) {
+      throw new Error('Stripe not loaded');
+    }
+
+    const { client_secret: clientSecret, status } = await createPaymentIntent(summary.checkoutId);
+    const { error: confirmError, paymentIntent } =
+      status === 'processing'
+        ? await stripe.retrievePaymentIntent(clientSecret)
+        : await confirm(clientSecret);
 
+    if (confirmError) {
+      throw new Error(confirmError.message || 'Failed to confirm payment');
+    }
+    return paymentIntent;
+  };
+
+  /**
+   * Confirms the payment with details from the Payment Element
+   * @returns Confirmed PaymentIntent
+   * @throws Error if the details are invalid or confirmation fails
+   */
+  const confirmWithPaymentElement = async (): Promise<PaymentIntent> => {
     if (!stripe || !elements) {
-      onError('Stripe not loaded');
-      return;
+      throw new Error('Stripe not loaded');
     }
 
-    setIsProcessing(true);
+    // Validate the entered details before creating the PaymentIntent
+    const { error: submitError } = await elements.submit();
+    if (submitError) {
+      throw new Error(submitError.message || 'Invalid payment details');
+    }
 
-    try {
-      // Get card element
+    // Methods that need a redirect return the buyer to this page; everything
+    // else, including 3-D Secure, is handled in place
+    return confirmCheckoutPaymentIntent((clientSecret) =>
+      stripe.confirmPayment({
+        elements,
+        clientSecret,
+        confirmParams: {
+          return_url: window.location.href,
+        },
+        redirect: 'if_required',
+      })
+    );
+  };
+
+  /**
+   * Confirms the payment with details from the card fields
+   * @returns Confirmed PaymentIntent
+   * @throws Error if confirmation fails
+   */
+  const confirmWithCardFields = async (): Promise<PaymentIntent> => {
+    if (!stripe || !elements) {
+      throw new Error('Stripe not loaded');
+    }
+
+    const cardNumberElement = elements.getElement(CardNumberElement);
+    if (!cardNumberElement) {
+      throw new Error('Card element not found');
+    }
+
+    // confirmCardPayment runs 3-D Secure itself when the card requires it
+    return confirmCheckoutPaymentIntent((clientSecret) =>
+      stripe.confirmCardPayment(clientSecret, {
+        payment_method: {
+          card: cardNumberElement,
+        },
+      })
+    );
+  };
+
+  /**
+   * Confirms the payment with a card saved on the buyer's Customer
+   * @param paymentMethodId - Saved card ID
+   * @returns Confirmed PaymentIntent
+   * @throws Error if confirmation fails
+   */
+  const confirmWithSavedCard = async (paymentMethodId: string): Promise<PaymentIntent> => {
+    if (!stripe) {
+      throw new Error('Stripe not loaded');
+    }
+
+    // The card may still need 3-D Secure for this payment
+    return confirmCheckoutPaymentIntent((clientSecret) =>
+      stripe.confirmCardPayment(clientSecret, {
+        payment_method: paymentMethodId,
+      })
+    );
+  };
+
+  /**
+   * Saves the entered card on the buyer's Customer with a SetupIntent
+   * @returns ID of the saved card
+   * @throws Error if the details are invalid or the card cannot be saved
+   */
+  const saveNewCard = async (): Promise<string> => {
+    if (!stripe || !elements) {
+      throw new Error('Stripe not loaded');
+    }
+
+    if (mode === 'card') {
       const cardNumberElement = elements.getElement(CardNumberElement);
       if (!cardNumberElement) {
         throw new Error('Card element not found');
       }
-
-      // Create Payment Intent to get client secret
-      const piResponse = await fetch('/api/payment/create-payment-intent', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          amount,
-          currency,
-        }),
+      const clientSecret = await createSetupIntent(summary.checkoutId);
+      const { error: setupError, setupIntent } = await stripe.confirmCardSetup(clientSecret, {
+        payment_method: {
+          card: cardNumberElement,
+        },
       });
-
-      if (!piResponse.ok) {
-        const errorData = await piResponse.json();
-        throw new Error(errorData.error || 'Failed to create payment intent');
+      if (setupError) {
+        throw new Error(setupError.message || 'Failed to save card');
       }
+      return getSavedPaymentMethodId(setupIntent);
+    }
+
+    const { error: submitError } = await elements.submit();
+    if (submitError) {
+      throw new Error(submitError.message || 'Invalid payment details');
+    }
+    const clientSecret = await createSetupIntent(summary.checkoutId);
+    const { error: setupError, setupIntent } = await stripe.confirmSetup({
+      elements,
+      clientSecret,
+      confirmParams: {
+        return_url: window.location.href,
+      },
+      redirect: 'if_required',
+    });
+    if (setupError) {
+      throw new Error(setupError.message || 'Failed to save card');
+    }
+    return getSavedPaymentMethodId(setupIntent);
+  };
 
-      const { client_secret: clientSecret } = await piResponse.json();
+  /**
+   * Confirms the payment with the saved card or the entered details
+   * @returns Confirmed PaymentIntent
+   * @throws Error if the payment cannot be confirmed
+   */
+  const confirmPayment = async (): Promise<PaymentIntent> => {
+    if (selectedMethodId) {
+      return confirmWithSavedCard(selectedMethodId);
+    }
+    if (saveCard) {
+      return confirmWithSavedCard(await saveNewCard());
+    }
+    return mode === 'card' ? confirmWithCardFields() : confirmWithPaymentElement();
+  };
 
-      // Confirm the card payment
-      const { error: confirmError, paymentIntent } = await stripe.confirmCardPayment(
-        clientSecret,
-        {
-          payment_method: {
-            card: cardNumberElement,
-          },
-        }
-      );
-
-      if (confirmError) {
-        throw new Error(confirmError.message || 'Failed to confirm payment');
-      }
+  /**
+   * Handles form submission and payment processing
+   * @param event - Form submit event
+   */
+  const handleSubmit = async (event: FormEvent): Promise<void> => {
+    event.preventDefault();
 
-      if (!paymentIntent) {
-        throw new Error('Payment intent not found after confirmation');
-      }
+    if (!stripe || !elements) {
+      onError('Stripe not loaded');
+      return;
+    }
 
-      if (paymentIntent.status === 'succeeded') {
-        onPaymentComplete(paymentIntent.id);
-      } else {
-        throw new Error(`Payment not successful. Status: ${paymentIntent.status}`);
-      }
+    setIsProcessing(true);
+
+    try {
+      handlePaymentIntentStatus(await confirmPayment());
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Payment failed';
       onError(errorMessage);
@@ -137,23 +538,89 @@ function PaymentFormInternal({ checkoutId, amount, currency, onPaymentComplete,
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
-      <div className="border border-gray-300 rounded-lg p-3 bg-white">
-        <CardNumberElement options={cardElementOptions} />
-      </div>
-      <div className="flex space-x-4">
-        <div className="w-1/2 border border-gray-300 rounded-lg p-3 bg-white">
-          <CardExpiryElement options={cardElementOptions} />
-        </div>
-        <div className="w-1/2 border border-gray-300 rounded-lg p-3 bg-white">
-          <CardCvcElement options={cardElementOptions} />
+      {/* Order summary */}
+      <div className="text-sm space-y-1">
+        {summary.lineItems.map((lineItem) => (
+          <div key={lineItem.id} className="flex justify-between gap-4">
+            <span>
+              {lineItem.name} × {lineItem.quantity}
+            </span>
+            <span>{formatAmount(lineItem.amount, summary.currency)}</span>
+          </div>
+        ))}
+        <div className="border-t border-gray-200 pt-1 mt-1 space-y-1">
+          {summary.totals.map((total) => (
+            <div
+              key={total.label}
+              className={`flex justify-between gap-4 ${
+                total.label === 'Total' ? 'font-semibold' : 'text-gray-600'
+              }`}
+            >
+              <span>{total.label}</span>
+              <span>{formatAmount(total.amount, summary.currency)}</span>
+            </div>
+          ))}
         </div>
       </div>
+
+      {savedMethods.length > 0 && (
+        <div className="text-sm space-y-2">
+          {savedMethods.map((paymentMethod) => (
+            <label key={paymentMethod.id} className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="payment-method"
+                checked={selectedMethodId === paymentMethod.id}
+                onChange={() => onSelectMethod(paymentMethod.id)}
+              />
+              {describeSavedCard(paymentMethod)}
+            </label>
+          ))}
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="payment-method"
+              checked={selectedMethodId === null}
+              onChange={() => onSelectMethod(null)}
+            />
+            Use a new payment method
+          </label>
+        </div>
+      )}
+
+      {selectedMethodId ? null : mode === 'card' ? (
+        <>
+          <div className="border border-gray-300 rounded-lg p-3 bg-white">
+            <CardNumberElement options={cardElementOptions} />
+          </div>
+          <div className="flex space-x-4">
+            <div className="w-1/2 border border-gray-300 rounded-lg p-3 bg-white">
+              <CardExpiryElement options={cardElementOptions} />
+            </div>
+            <div className="w-1/2 border border-gray-300 rounded-lg p-3 bg-white">
+              <CardCvcElement options={cardElementOptions} />
+            </div>
+          </div>
+        </>
+      ) : (
+        <PaymentElement />
+      )}
+      {!selectedMethodId && buyerVerified && (
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={saveCard}
+            onChange={(event) => onSaveCardChange(event.target.checked)}
+          />
+          Save this card for future purchases
+        </label>
+      )}
       <button
         type="submit"
         disabled={!stripe || isProcessing}
         className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed font-semibold"
       >
-        {isProcessing ? 'Processing...' : `Pay $${(amount / 100).toFixed(2)}`}
+        {isProcessing ? 'Processing...' : `Pay ${formatAmount(summary.amount, summary.currency)}`}
       </button>
     </form>
   );
@@ -165,16 +632,50 @@ function PaymentFormInternal({ checkoutId, amount, currency, onPaymentComplete,
 
 /**
  * Payment form component with Stripe Elements
- * @param checkoutId - Checkout session ID
- * @param amount - Total amount in cents
- * @param currency - Currency code
+ * @param summary - Checkout session being paid
+ * @param mode - How payment details are collected (defaults to the Payment Element)
  * @param onPaymentComplete - Callback when payment succeeds
+ * @param onPaymentProcessing - Callback when payment is accepted but not yet confirmed
  * @param onError - Callback when payment fails
  * @returns Payment form wrapped in Stripe Elements provider
  */
-export default function PaymentForm({ checkoutId, amount, currency, onPaymentComplete, onError }: PaymentFormProps) {
+export default function PaymentForm({
+  summary,
+  mode = 'payment_element',
+  onPaymentComplete,
+  onPaymentProcessing,
+  onError,
+}: PaymentFormProps) {
+  const [savedMethods, setSavedMethods] = useState<SavedPaymentMethod[]>([]);
+  const [selectedMethodId, setSelectedMethodId] = useState<string | null>(null);
+  // Saved cards and card saving stay locked until the server says otherwise
+  const [verificationRequired, setVerificationRequired] = useState(true);
+  const [verifiedAt, setVerifiedAt] = useState<number | null>(null);
+  const [saveCard, setSaveCard] = useState(false);
   const stripePublishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY;
 
+  // Returning buyers are offered the cards saved on their Customer once they
+  // verified their email. No card is selected for them: paying with a saved
+  // card is always the buyer's explicit choice.
+  useEffect(() => {
+    if (!summary.buyerEmail) {
+      return;
+    }
+    fetch(`/api/payment/saved-payment-methods?checkout_id=${encodeURIComponent(summary.checkoutId)}`)
+      .then((response) =>
+        response.ok ? response.json() : { payment_methods: [], verification_required: true }
+      )
+      .then(({ payment_methods: paymentMethods, verification_required: needsVerification }: SavedPaymentMethodsResponse) => {
+        setSavedMethods(paymentMethods);
+        setVerificationRequired(needsVerification);
+        setSelectedMethodId(null);
+      })
+      .catch(() => {
+        // Saved cards are optional; new details can still be entered
+        setSavedMethods([]);
+      });
+  }, [summary.checkoutId, summary.buyerEmail, verifiedAt]);
+
   if (!stripePublishableKey) {
     return (
       <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
@@ -185,22 +686,50 @@ export default function PaymentForm({ checkoutId, amount, currency, onPaymentCom
 
   const stripePromise = loadStripe(stripePublishableKey);
 
-  const options: StripeElementsOptions = {
-    mode: 'payment',
-    amount,
-    currency: currency.toLowerCase(),
-  };
+  // The PaymentIntent is created on submit, so the Payment Element offers the
+  // methods enabled for this amount and currency in the Dashboard. A card
+  // being saved is collected for a SetupIntent first, which only takes cards.
+  const savesWithPaymentElement = saveCard && mode === 'payment_element';
+  const options: StripeElementsOptions = savesWithPaymentElement
+    ? {
+        mode: 'setup',
+        currency: summary.currency.toLowerCase(),
+        paymentMethodTypes: ['card'],
+      }
+    : {
+        mode: 'payment',
+        amount: summary.amount,
+        currency: summary.currency.toLowerCase(),
+      };
 
   return (
-    <Elements stripe={stripePromise} options={options}>
-      <PaymentFormInternal
-        checkoutId={checkoutId}
-        amount={amount}
-        currency={currency}
-        onPaymentComplete={onPaymentComplete}
-        onError={onError}
-      />
-    </Elements>
+    <>
+      {summary.buyerEmail && verificationRequired && (
+        <BuyerVerification
+          checkoutId={summary.checkoutId}
+          buyerEmail={summary.buyerEmail}
+          onVerified={() => setVerifiedAt(Date.now())}
+        />
+      )}
+      <Elements
+        key={savesWithPaymentElement ? 'setup' : 'payment'}
+        stripe={stripePromise}
+        options={options}
+      >
+        <PaymentFormInternal
+          summary={summary}
+          mode={mode}
+          onPaymentComplete={onPaymentComplete}
+          onPaymentProcessing={onPaymentProcessing}
+          onError={onError}
+          buyerVerified={Boolean(summary.buyerEmail) && !verificationRequired}
+          savedMethods={savedMethods}
+          selectedMethodId={selectedMethodId}
+          onSelectMethod={setSelectedMethodId}
+          saveCard={saveCard}
+          onSaveCardChange={setSaveCard}
+        />
+      </Elements>
+    </>
   );
 }
-
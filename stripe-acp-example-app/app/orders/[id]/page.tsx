@@ -0,0 +1,115 @@
+/**
+ * Order Status Page
+ *
+ * Buyer-facing page linked from the permalink_url of order webhook events.
+ *
+ * Responsibilities:
+ * - Verify the signed order link
+ * - Show the order status, items, shipment tracking and refunds
+ */
+
+import { notFound } from 'next/navigation';
+import { getCatalogProducts } from '@/lib/catalog/productCatalog';
+import { readOrdersFromFile } from '@/lib/checkout/orderStorage';
+import { verifyOrderPermalink } from '@/lib/checkout/orderPermalinks';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Formats an amount in minor units for display
+ * @param amount - Amount in minor units
+ * @param currency - ISO currency code
+ * @returns Localized currency string
+ */
+function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amount / 100);
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default async function OrderPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ signature?: string }>;
+}) {
+  const { id } = await params;
+  const { signature } = await searchParams;
+
+  // Unsigned links and unknown orders look the same, so order IDs cannot be probed
+  const order = readOrdersFromFile().get(id);
+  if (!order || !signature || !verifyOrderPermalink(id, signature)) {
+    notFound();
+  }
+
+  const products = getCatalogProducts();
+  const refunds = order.refunds.filter(
+    (refund) => refund.status === 'succeeded' || refund.status === 'pending'
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="mx-auto max-w-xl rounded-lg bg-white border border-gray-200 p-6 space-y-6">
+        <div>
+          <h1 className="text-xl font-semibold">Order {order.id}</h1>
+          <p className="text-sm text-gray-600">
+            Placed {new Date(order.created_at).toLocaleString()} · Status:{' '}
+            <span className="font-medium capitalize">{order.status}</span>
+          </p>
+        </div>
+
+        <ul className="divide-y divide-gray-100">
+          {order.line_items.map((lineItem) => (
+            <li key={lineItem.id} className="flex justify-between py-2 text-sm">
+              <span>
+                {products.find((p) => p.id === lineItem.item.id)?.name || lineItem.item.id} ×{' '}
+                {lineItem.item.quantity}
+              </span>
+              <span>{formatAmount(lineItem.total, order.currency)}</span>
+            </li>
+          ))}
+          <li className="flex justify-between py-2 text-sm font-semibold">
+            <span>Total</span>
+            <span>{formatAmount(order.total_amount, order.currency)}</span>
+          </li>
+        </ul>
+
+        {order.shipment && (
+          <div className="text-sm">
+            <h2 className="font-semibold">Shipment</h2>
+            <p>
+              {order.shipment.carrier} {order.shipment.tracking_number}
+              {order.shipment.tracking_url && (
+                <>
+                  {' '}
+                  · <a className="text-blue-600 underline" href={order.shipment.tracking_url}>Track package</a>
+                </>
+              )}
+            </p>
+          </div>
+        )}
+
+        {refunds.length > 0 && (
+          <div className="text-sm">
+            <h2 className="font-semibold">Refunds</h2>
+            <ul>
+              {refunds.map((refund) => (
+                <li key={refund.id}>
+                  {formatAmount(refund.amount, order.currency)} ({refund.status})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
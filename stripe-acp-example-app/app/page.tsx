@@ -14,6 +14,7 @@
 
 import { useState, useRef, useEffect } from 'react';
 import PaymentForm from './components/PaymentForm';
+import { PaymentSummary } from '@/lib/types/payment';
 
 // ============================================================================
 // INTERFACES
@@ -24,12 +25,6 @@ interface Message {
   content: string;
 }
 
-interface CheckoutState {
-  checkoutId: string;
-  amount: number;
-  currency: string;
-}
-
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -38,7 +33,7 @@ export default function ChatPage() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [checkoutState, setCheckoutState] = useState<CheckoutState | null>(null);
+  const [checkoutState, setCheckoutState] = useState<PaymentSummary | null>(null);
   const conversationIdRef = useRef<string>(Date.now().toString());
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -248,6 +243,42 @@ export default function ChatPage() {
     }
   };
 
+  /**
+   * Handles payments that were accepted but are still being confirmed, e.g.
+   * bank debits. The order is created by the Stripe webhook once the payment
+   * succeeds, so the agent is not asked to complete the checkout. The checkout
+   * is held first, so the next checkout-state poll does not bring the payment
+   * form back.
+   * @param paymentIntentId - Stripe payment intent ID
+   */
+  const handlePaymentProcessing = async (paymentIntentId: string): Promise<void> => {
+    if (!checkoutState) return;
+
+    try {
+      await fetch('/api/payment/processing-payment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          checkout_id: checkoutState.checkoutId,
+          payment_intent_id: paymentIntentId,
+        }),
+      });
+    } catch (error) {
+      // The payment form asks the server again before paying, so a retry
+      // still reuses this payment rather than charging twice
+      console.error('Could not hold checkout for processing payment:', error);
+    }
+
+    setCheckoutState(null);
+    setMessages((prev) => [
+      ...prev,
+      {
+        role: 'assistant',
+        content: `Your payment (${paymentIntentId}) is being processed. Your order will be created as soon as it is confirmed.`,
+      },
+    ]);
+  };
+
   /**
    * Handles payment errors
    * @param error - Error message
@@ -299,15 +330,11 @@ export default function ChatPage() {
         {checkoutState && (
           <div className="flex justify-start">
             <div className="max-w-[80%] rounded-lg px-4 py-4 bg-white border-2 border-blue-200 shadow-lg">
-              <h3 className="text-lg font-semibold mb-2">Complete Your Payment</h3>
-              <p className="text-sm text-gray-600 mb-4">
-                Total: ${(checkoutState.amount / 100).toFixed(2)} {checkoutState.currency.toUpperCase()}
-              </p>
+              <h3 className="text-lg font-semibold mb-4">Complete Your Payment</h3>
               <PaymentForm
-                checkoutId={checkoutState.checkoutId}
-                amount={checkoutState.amount}
-                currency={checkoutState.currency}
+                summary={checkoutState}
                 onPaymentComplete={handlePaymentComplete}
+                onPaymentProcessing={handlePaymentProcessing}
                 onError={handlePaymentError}
               />
             </div>
@@ -0,0 +1,124 @@
+/**
+ * ACP Error Handling
+ *
+ * Responsibilities:
+ * - Define the error thrown by domain code to signal a spec-shaped failure
+ * - Map error codes to HTTP status codes
+ * - Convert thrown errors into ACP error responses
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AcpError, AcpErrorCode } from '@/lib/types/error';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Default HTTP status for each error code
+ */
+const STATUS_BY_CODE: Record<AcpErrorCode, number> = {
+  missing: 400,
+  invalid: 400,
+  invalid_card: 400,
+  unsupported_api_version: 400,
+  invalid_authorization: 401,
+  invalid_signature: 401,
+  invalid_timestamp: 401,
+  not_found: 404,
+  invalid_state: 405,
+  request_not_idempotent: 409,
+  idempotency_conflict: 409,
+  out_of_stock: 422,
+  payment_declined: 422,
+  requires_sign_in: 422,
+  requires_3ds: 422,
+  processing_error: 500,
+};
+
+// ============================================================================
+// ERROR CLASS
+// ============================================================================
+
+/**
+ * Error carrying an ACP error body and the HTTP status to respond with
+ */
+export class AcpRequestError extends Error {
+  readonly status: number;
+  readonly body: AcpError;
+
+  constructor(status: number, body: AcpError) {
+    super(body.message);
+    this.name = 'AcpRequestError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// ============================================================================
+// ERROR FUNCTIONS
+// ============================================================================
+
+/**
+ * Creates an ACP error to throw from domain code
+ * @param code - Error code
+ * @param message - Human-readable description
+ * @param param - JSONPath to the offending request or session field
+ * @param status - HTTP status, defaults to the status mapped to the code
+ * @returns Error ready to be thrown
+ */
+export function createAcpError(
+  code: AcpErrorCode,
+  message: string,
+  param?: string,
+  status: number = STATUS_BY_CODE[code]
+): AcpRequestError {
+  return new AcpRequestError(status, {
+    type: code === 'processing_error' ? 'processing_error' : 'invalid_request',
+    code,
+    message,
+    ...(param ? { param } : {}),
+  });
+}
+
+/**
+ * Parses a JSON request body
+ * @param request - Incoming request
+ * @returns Parsed body
+ * @throws AcpRequestError with code invalid if the body is not a JSON object
+ */
+export async function readJsonBody<T>(request: NextRequest): Promise<T> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw createAcpError('invalid', 'Request body must be valid JSON');
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw createAcpError('invalid', 'Request body must be a JSON object');
+  }
+
+  return body as T;
+}
+
+/**
+ * Converts a thrown error into an ACP error response
+ * @param error - Error thrown while handling the request
+ * @returns JSON error response
+ */
+export function toErrorResponse(error: unknown): NextResponse<AcpError> {
+  if (error instanceof AcpRequestError) {
+    return NextResponse.json(error.body, { status: error.status });
+  }
+
+  console.error('Unhandled ACP error:', error);
+  return NextResponse.json(
+    {
+      type: 'processing_error',
+      code: 'processing_error',
+      message: 'An unexpected error occurred while processing the request',
+    },
+    { status: 500 }
+  );
+}
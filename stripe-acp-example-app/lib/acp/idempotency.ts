@@ -0,0 +1,150 @@
+/**
+ * ACP Idempotency Handling
+ *
+ * Responsibilities:
+ * - Replay the stored response when a request is retried with the same Idempotency-Key
+ * - Reject reuse of an Idempotency-Key with a different request body
+ * - Reserve the key before the handler runs so concurrent duplicates are
+ *   rejected instead of processed twice
+ * - Store responses of new idempotent requests
+ */
+
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { AcpError } from '@/lib/types/error';
+import { RouteHandler } from '@/lib/acp/middleware';
+import { createAcpError } from '@/lib/acp/errors';
+import {
+  readIdempotencyRecordsFromFile,
+  writeIdempotencyRecordsToFile,
+} from '@/lib/checkout/idempotencyStorage';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Age after which a reservation is treated as left behind by a crashed request
+ */
+const RESERVATION_TIMEOUT_MS = 60 * 1000;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Scopes an Idempotency-Key to the endpoint it was sent to
+ * @param request - Incoming request
+ * @param idempotencyKey - Value of the Idempotency-Key header
+ * @returns Storage key
+ */
+function getScopedKey(request: NextRequest, idempotencyKey: string): string {
+  return `${request.method} ${request.nextUrl.pathname} ${idempotencyKey}`;
+}
+
+/**
+ * Hashes a raw request body
+ * @param body - Raw request body
+ * @returns Hex encoded SHA-256 hash
+ */
+function hashBody(body: string): string {
+  return crypto.createHash('sha256').update(body).digest('hex');
+}
+
+/**
+ * Removes the reservation of a request that did not produce a stored response
+ * @param scopedKey - Storage key of the request
+ */
+function releaseReservation(scopedKey: string): void {
+  const records = readIdempotencyRecordsFromFile();
+  if (records.delete(scopedKey)) {
+    writeIdempotencyRecordsToFile(records);
+  }
+}
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+/**
+ * Wraps a POST route handler with Idempotency-Key replay protection.
+ * Requests without the header are passed through unchanged.
+ * @param handler - Route handler to protect
+ * @returns Route handler that replays stored responses for retried requests
+ */
+export function withIdempotency<TContext, TBody>(
+  handler: RouteHandler<TContext, TBody>
+): RouteHandler<TContext, TBody | AcpError> {
+  return async (request, context) => {
+    const idempotencyKey = request.headers.get('Idempotency-Key');
+    if (!idempotencyKey) {
+      return handler(request, context);
+    }
+
+    const scopedKey = getScopedKey(request, idempotencyKey);
+    const requestHash = hashBody(await request.clone().text());
+
+    // Reading, checking and reserving the key happen without awaiting, so no
+    // other request can slip in between
+    const records = readIdempotencyRecordsFromFile();
+    const existingRecord = records.get(scopedKey);
+    if (existingRecord) {
+      if (existingRecord.request_hash !== requestHash) {
+        throw createAcpError(
+          'idempotency_conflict',
+          'Idempotency-Key was already used with a different request body'
+        );
+      }
+
+      if (existingRecord.state !== 'in_progress') {
+        return new NextResponse(existingRecord.body, {
+          status: existingRecord.status,
+          headers: {
+            'Content-Type': 'application/json',
+            'Idempotent-Replayed': 'true',
+          },
+        });
+      }
+
+      if (Date.now() - Date.parse(existingRecord.created_at) < RESERVATION_TIMEOUT_MS) {
+        throw createAcpError(
+          'request_not_idempotent',
+          'A request with this Idempotency-Key is still being processed; retry later'
+        );
+      }
+    }
+
+    records.set(scopedKey, {
+      request_hash: requestHash,
+      state: 'in_progress',
+      created_at: new Date().toISOString(),
+    });
+    writeIdempotencyRecordsToFile(records);
+
+    let response: NextResponse<TBody>;
+    try {
+      response = await handler(request, context);
+    } catch (error) {
+      releaseReservation(scopedKey);
+      throw error;
+    }
+
+    // Server errors are not stored so the client can retry them
+    if (response.status >= 500) {
+      releaseReservation(scopedKey);
+      return response;
+    }
+
+    const latestRecords = readIdempotencyRecordsFromFile();
+    latestRecords.set(scopedKey, {
+      request_hash: requestHash,
+      state: 'completed',
+      status: response.status,
+      body: await response.clone().text(),
+      created_at: new Date().toISOString(),
+    });
+    writeIdempotencyRecordsToFile(latestRecords);
+
+    return response;
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Tests for ACP request verification: signed requests are accepted, and a
+ * captured request replayed under a new Timestamp is rejected
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { NextRequest, NextResponse } from 'next/server';
+import { buildSignedHeaders } from '@/lib/acp/signature';
+import { withAcpMiddleware } from '@/lib/acp/middleware';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const REQUEST_URL = 'http://localhost/api/acp/checkout_sessions';
+const BODY = JSON.stringify({ items: [{ id: 'item_1', quantity: 1 }] });
+
+const handler = withAcpMiddleware(async () => NextResponse.json({ ok: true }));
+
+/**
+ * Builds a POST request with the given headers and body
+ * @param headers - Request headers
+ * @returns Request to pass to the wrapped handler
+ */
+function buildRequest(headers: Record<string, string>): NextRequest {
+  return new NextRequest(REQUEST_URL, { method: 'POST', headers, body: BODY });
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('withAcpMiddleware', () => {
+  beforeEach(() => {
+    process.env.ACP_API_KEY = 'test_api_key';
+    process.env.ACP_SIGNING_SECRET = 'test_signing_secret';
+  });
+
+  afterEach(() => {
+    delete process.env.ACP_API_KEY;
+    delete process.env.ACP_SIGNING_SECRET;
+  });
+
+  it('accepts a request signed over its timestamp and body', async () => {
+    const response = await handler(buildRequest(buildSignedHeaders(BODY)), {});
+
+    expect(response.status).toBe(200);
+  });
+
+  it('rejects a replayed request whose timestamp was changed', async () => {
+    const headers = buildSignedHeaders(BODY);
+    const replayedAt = new Date(Date.parse(headers.Timestamp) + 60_000).toISOString();
+
+    const response = await handler(buildRequest({ ...headers, Timestamp: replayedAt }), {});
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'invalid_signature' });
+  });
+
+  it('rejects a request whose body was changed', async () => {
+    const headers = buildSignedHeaders(BODY);
+
+    const response = await handler(
+      new NextRequest(REQUEST_URL, { method: 'POST', headers, body: JSON.stringify({ items: [] }) }),
+      {}
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'invalid_signature' });
+  });
+});
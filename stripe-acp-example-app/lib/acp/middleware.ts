@@ -0,0 +1,195 @@
+/**
+ * ACP Request Middleware
+ *
+ * Responsibilities:
+ * - Verify bearer token, timestamp and signature of every ACP request
+ * - Verify the separate merchant API key on merchant-only endpoints
+ * - Negotiate the API version requested by the caller
+ * - Convert errors thrown by route handlers into spec-shaped responses
+ * - Echo Idempotency-Key, Request-Id and API-Version on every response
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AcpError } from '@/lib/types/error';
+import { createAcpError, toErrorResponse } from '@/lib/acp/errors';
+import {
+  ACP_API_VERSION,
+  SUPPORTED_API_VERSIONS,
+  getAcpCredentials,
+  safeEqual,
+  verifyRequestSignature,
+} from '@/lib/acp/signature';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_TIMESTAMP_TOLERANCE_SECONDS = 300;
+const ECHOED_HEADERS = ['Idempotency-Key', 'Request-Id'];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Next.js route handler with typed route context
+ */
+export type RouteHandler<TContext, TBody> = (
+  request: NextRequest,
+  context: TContext
+) => Promise<NextResponse<TBody>>;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads the allowed clock skew for request timestamps
+ * @returns Tolerance in seconds
+ */
+function getTimestampToleranceSeconds(): number {
+  const configured = Number(process.env.ACP_TIMESTAMP_TOLERANCE_SECONDS);
+  return configured > 0 ? configured : DEFAULT_TIMESTAMP_TOLERANCE_SECONDS;
+}
+
+/**
+ * Resolves the API version to serve for a request
+ * @param requestedVersion - Value of the API-Version header, if any
+ * @returns Negotiated version
+ */
+function negotiateApiVersion(requestedVersion: string | null): string {
+  if (!requestedVersion) {
+    return ACP_API_VERSION;
+  }
+  if (!SUPPORTED_API_VERSIONS.includes(requestedVersion)) {
+    throw createAcpError(
+      'unsupported_api_version',
+      `Unsupported API-Version. Supported versions: ${SUPPORTED_API_VERSIONS.join(', ')}`
+    );
+  }
+  return requestedVersion;
+}
+
+/**
+ * Verifies the authentication headers of an ACP request
+ * @param request - Incoming request
+ */
+async function verifyAcpRequest(request: NextRequest): Promise<void> {
+  const { apiKey, signingSecret } = getAcpCredentials();
+
+  const authorization = request.headers.get('Authorization') || '';
+  if (!safeEqual(`Bearer ${apiKey}`, authorization)) {
+    throw createAcpError('invalid_authorization', 'Missing or invalid bearer token');
+  }
+
+  const timestamp = request.headers.get('Timestamp') || '';
+  const timestampMs = Date.parse(timestamp);
+  if (Number.isNaN(timestampMs)) {
+    throw createAcpError('invalid_timestamp', 'Timestamp header must be an RFC 3339 date-time');
+  }
+  if (Math.abs(Date.now() - timestampMs) > getTimestampToleranceSeconds() * 1000) {
+    throw createAcpError('invalid_timestamp', 'Request timestamp is outside the allowed window');
+  }
+
+  // Read a clone so the route handler can still consume the body
+  const body = await request.clone().text();
+  const signature = request.headers.get('Signature') || '';
+  if (!verifyRequestSignature(timestamp, body, signature, signingSecret)) {
+    throw createAcpError('invalid_signature', 'Signature does not match the request timestamp and body');
+  }
+}
+
+/**
+ * Wraps a route handler with request verification, error mapping and
+ * response headers
+ * @param handler - Route handler to protect
+ * @param verify - Throws if the request is not authenticated
+ * @returns Route handler that rejects unauthenticated requests and returns
+ * spec-shaped errors for anything the handler throws
+ */
+function withVerification<TContext, TBody>(
+  handler: RouteHandler<TContext, TBody>,
+  verify: (request: NextRequest) => Promise<void>
+): RouteHandler<TContext, TBody | AcpError> {
+  return async (request, context) => {
+    let apiVersion = ACP_API_VERSION;
+    let response: NextResponse<TBody | AcpError>;
+    try {
+      apiVersion = negotiateApiVersion(request.headers.get('API-Version'));
+      await verify(request);
+      response = await handler(request, context);
+    } catch (error) {
+      response = toErrorResponse(error);
+    }
+
+    response.headers.set('API-Version', apiVersion);
+    for (const header of ECHOED_HEADERS) {
+      const value = request.headers.get(header);
+      if (value) {
+        response.headers.set(header, value);
+      }
+    }
+
+    return response;
+  };
+}
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+/**
+ * Checks whether a request carries the merchant API key. Merchant tools send
+ * it as a bearer token; agents never hold it.
+ * @param request - Incoming request
+ * @returns True if the request is authenticated as the merchant
+ */
+export function isMerchantRequest(request: NextRequest): boolean {
+  const apiKey = process.env.MERCHANT_API_KEY;
+  if (!apiKey) {
+    return false;
+  }
+  return safeEqual(`Bearer ${apiKey}`, request.headers.get('Authorization') || '');
+}
+
+/**
+ * Wraps an ACP route handler with request verification, error mapping and
+ * response headers
+ * @param handler - Route handler to protect
+ * @returns Route handler that rejects unauthenticated requests and returns
+ * spec-shaped errors for anything the handler throws
+ */
+export function withAcpMiddleware<TContext, TBody>(
+  handler: RouteHandler<TContext, TBody>
+): RouteHandler<TContext, TBody | AcpError> {
+  return withVerification(handler, verifyAcpRequest);
+}
+
+/**
+ * Wraps a merchant route handler. Requests must carry the merchant API key,
+ * unless allowAgent also admits signed ACP requests; the handler then uses
+ * isMerchantRequest to tell the two apart.
+ * @param handler - Route handler to protect
+ * @param options - Whether signed agent requests are accepted too
+ * @returns Route handler that rejects callers without merchant (or agent)
+ * credentials and returns spec-shaped errors for anything the handler throws
+ */
+export function withMerchantMiddleware<TContext, TBody>(
+  handler: RouteHandler<TContext, TBody>,
+  { allowAgent = false }: { allowAgent?: boolean } = {}
+): RouteHandler<TContext, TBody | AcpError> {
+  return withVerification(handler, async (request) => {
+    if (isMerchantRequest(request)) {
+      return;
+    }
+    if (allowAgent) {
+      await verifyAcpRequest(request);
+      return;
+    }
+
+    if (!process.env.MERCHANT_API_KEY) {
+      throw new Error('MERCHANT_API_KEY environment variable is required for merchant endpoints');
+    }
+    throw createAcpError('invalid_authorization', 'Missing or invalid merchant API key');
+  });
+}
@@ -0,0 +1,127 @@
+/**
+ * ACP Request Signing Utilities
+ *
+ * Responsibilities:
+ * - Read the ACP API key and signing secret from environment
+ * - Compute and verify HMAC-SHA256 signatures of request bodies, bound to
+ *   the request timestamp
+ * - Build the signed header set used when calling ACP endpoints
+ */
+
+import crypto from 'crypto';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const ACP_API_VERSION = '2025-09-12';
+export const SUPPORTED_API_VERSIONS = [ACP_API_VERSION];
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Credentials shared between the agent and the merchant ACP endpoints
+ */
+export interface AcpCredentials {
+  apiKey: string;
+  signingSecret: string;
+}
+
+// ============================================================================
+// SIGNING FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads ACP credentials from environment
+ * @returns API key and signing secret
+ */
+export function getAcpCredentials(): AcpCredentials {
+  const apiKey = process.env.ACP_API_KEY;
+  const signingSecret = process.env.ACP_SIGNING_SECRET;
+
+  if (!apiKey || !signingSecret) {
+    throw new Error('ACP_API_KEY and ACP_SIGNING_SECRET environment variables are required');
+  }
+
+  return { apiKey, signingSecret };
+}
+
+/**
+ * Computes the Base64 encoded HMAC-SHA256 signature of a request body
+ * @param body - Raw request body (empty string for requests without body)
+ * @param secret - Signing secret
+ * @returns Base64 encoded signature
+ */
+export function computeSignature(body: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('base64');
+}
+
+/**
+ * Computes the signature of a request. The timestamp is signed together with
+ * the body, so a captured request cannot be replayed under a fresh Timestamp.
+ * @param timestamp - Value of the Timestamp header
+ * @param body - Raw request body (empty string for requests without body)
+ * @param secret - Signing secret
+ * @returns Base64 encoded signature of `${timestamp}.${body}`
+ */
+export function computeRequestSignature(timestamp: string, body: string, secret: string): string {
+  return computeSignature(`${timestamp}.${body}`, secret);
+}
+
+/**
+ * Verifies a request signature in constant time
+ * @param timestamp - Value of the Timestamp header
+ * @param body - Raw request body
+ * @param signature - Base64 encoded signature from the Signature header
+ * @param secret - Signing secret
+ * @returns True if the signature matches the timestamp and body
+ */
+export function verifyRequestSignature(
+  timestamp: string,
+  body: string,
+  signature: string,
+  secret: string
+): boolean {
+  return safeEqual(computeRequestSignature(timestamp, body, secret), signature);
+}
+
+/**
+ * Compares two strings in constant time
+ * @param expected - Expected value
+ * @param actual - Value received from the client
+ * @returns True if both strings are equal
+ */
+export function safeEqual(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  if (expectedBuffer.length !== actualBuffer.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+}
+
+/**
+ * Builds the authenticated header set for a call to an ACP endpoint
+ * @param body - Raw request body that will be sent (empty string for GET)
+ * @param idempotencyKey - Optional Idempotency-Key for retry-safe POST requests
+ * @returns Headers including Authorization, Signature, Timestamp and API-Version
+ */
+export function buildSignedHeaders(body: string, idempotencyKey?: string): Record<string, string> {
+  const { apiKey, signingSecret } = getAcpCredentials();
+  const timestamp = new Date().toISOString();
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${apiKey}`,
+    'Signature': computeRequestSignature(timestamp, body, signingSecret),
+    'Timestamp': timestamp,
+    'API-Version': ACP_API_VERSION,
+    'Request-Id': crypto.randomUUID(),
+  };
+  if (idempotencyKey) {
+    headers['Idempotency-Key'] = idempotencyKey;
+  }
+  return headers;
+}
@@ -0,0 +1,58 @@
+/**
+ * Product Catalog
+ *
+ * Responsibilities:
+ * - Read the product catalog from data/products.json
+ * - Re-read the file when it changes on disk, so edits take effect without
+ *   a restart
+ * - Serve search, checkout, pricing and orders from the same copy, so search
+ *   never shows a product or price that checkout would reject or charge
+ *   differently
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Product } from '@/lib/types/product';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PRODUCTS_FILE_PATH = path.join(process.cwd(), 'data', 'products.json');
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+/**
+ * Catalog as of the file's last modification time
+ */
+let cachedCatalog: { modifiedAt: number; products: Product[] } | undefined;
+
+// ============================================================================
+// CATALOG FUNCTIONS
+// ============================================================================
+
+/**
+ * Returns the products of data/products.json, re-reading the file when it
+ * has changed since the last call. The same array is returned until then, so
+ * callers can cache what they derive from it by identity. If the changed
+ * file cannot be read, the previous catalog keeps serving.
+ * @returns Products of the current catalog
+ * @throws Error if the catalog has never been read successfully
+ */
+export function getCatalogProducts(): Product[] {
+  try {
+    const modifiedAt = fs.statSync(PRODUCTS_FILE_PATH).mtimeMs;
+    if (cachedCatalog?.modifiedAt !== modifiedAt) {
+      const products = JSON.parse(fs.readFileSync(PRODUCTS_FILE_PATH, 'utf-8')) as Product[];
+      cachedCatalog = { modifiedAt, products };
+    }
+  } catch (error) {
+    if (!cachedCatalog) {
+      throw error;
+    }
+    console.error('Error reading products file, keeping the previous catalog:', error);
+  }
+  return cachedCatalog.products;
+}
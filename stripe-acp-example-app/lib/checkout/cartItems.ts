@@ -0,0 +1,66 @@
+/**
+ * Checkout Cart Item Utilities
+ *
+ * Responsibilities:
+ * - Validate cart items sent by the agent against the product catalog
+ * - Refuse products the merchant has not enabled for checkout
+ * - Merge duplicate products and drop removed items
+ */
+
+import { CartItem } from '@/lib/types/checkout';
+import { getCatalogProducts } from '@/lib/catalog/productCatalog';
+import { createAcpError } from '@/lib/acp/errors';
+
+// ============================================================================
+// CART ITEM FUNCTIONS
+// ============================================================================
+
+/**
+ * Validates cart items, merges duplicate products and drops removed items
+ * @param items - Cart items from the request body
+ * @param allowRemoval - Whether a quantity of 0 may be used to remove an item
+ * @returns Cart items with one entry per product and a positive quantity
+ * @throws AcpRequestError with code invalid for entries that are not item
+ * objects, unknown products, products not enabled for checkout and bad quantities
+ */
+export function normalizeCartItems(items: CartItem[], allowRemoval: boolean): CartItem[] {
+  if (!Array.isArray(items)) {
+    throw createAcpError('invalid', 'Items must be a list', '$.items');
+  }
+
+  const products = getCatalogProducts();
+  const quantities = new Map<string, number>();
+
+  items.forEach((item, index) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      throw createAcpError('invalid', 'Item must be an object with id and quantity', `$.items[${index}]`);
+    }
+    if (typeof item.id !== 'string' || !item.id) {
+      throw createAcpError('invalid', 'Item id must be a non-empty string', `$.items[${index}].id`);
+    }
+
+    const minimumQuantity = allowRemoval ? 0 : 1;
+    if (!Number.isInteger(item.quantity) || item.quantity < minimumQuantity) {
+      const requirement = allowRemoval ? 'a non-negative integer' : 'a positive integer';
+      throw createAcpError('invalid', `Quantity must be ${requirement}`, `$.items[${index}].quantity`);
+    }
+
+    const product = products.find((p) => p.id === item.id);
+    if (!product) {
+      throw createAcpError('invalid', `Product not found: ${item.id}`, `$.items[${index}].id`);
+    }
+    if (!product.enable_checkout && item.quantity > 0) {
+      throw createAcpError(
+        'invalid',
+        `Product is not available for checkout: ${item.id}`,
+        `$.items[${index}].id`
+      );
+    }
+
+    quantities.set(item.id, (quantities.get(item.id) || 0) + item.quantity);
+  });
+
+  return Array.from(quantities.entries())
+    .filter(([, quantity]) => quantity > 0)
+    .map(([id, quantity]) => ({ id, quantity }));
+}
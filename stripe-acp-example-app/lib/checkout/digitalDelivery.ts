@@ -0,0 +1,116 @@
+/**
+ * Digital Delivery
+ *
+ * Responsibilities:
+ * - Create delivery records with signed, expiring download links for the
+ *   digital items of an order
+ * - Verify download link signatures
+ */
+
+import { LineItem } from '@/lib/types/checkout';
+import { DigitalDelivery } from '@/lib/types/order';
+import { getCatalogProducts } from '@/lib/catalog/productCatalog';
+import { computeSignature, safeEqual } from '@/lib/acp/signature';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DOWNLOAD_LINK_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads the secret used to sign download links
+ * @returns Signing secret
+ * @throws Error if DOWNLOAD_SIGNING_SECRET is not set
+ */
+function getDownloadSigningSecret(): string {
+  const secret = process.env.DOWNLOAD_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('DOWNLOAD_SIGNING_SECRET environment variable is required for digital delivery');
+  }
+  return secret;
+}
+
+/**
+ * Builds the string covered by a download link signature
+ * @param orderId - Order ID
+ * @param productId - Digital product ID
+ * @param expiresAt - Expiry as Unix seconds
+ * @returns Signed payload
+ */
+function getDownloadPayload(orderId: string, productId: string, expiresAt: number): string {
+  return `${orderId}:${productId}:${expiresAt}`;
+}
+
+// ============================================================================
+// DELIVERY FUNCTIONS
+// ============================================================================
+
+/**
+ * Creates delivery records for the digital line items of an order
+ * @param orderId - Order ID the links are issued for
+ * @param lineItems - Line items of the completed checkout
+ * @param email - Buyer email the links are sent to
+ * @param baseUrl - Origin the download route is served from
+ * @returns One delivery record per digital line item
+ */
+export function createDigitalDeliveries(
+  orderId: string,
+  lineItems: LineItem[],
+  email: string,
+  baseUrl: string
+): DigitalDelivery[] {
+  const products = getCatalogProducts();
+  const expiresAt = Math.floor(Date.now() / 1000) + DOWNLOAD_LINK_TTL_SECONDS;
+
+  return lineItems
+    .filter((lineItem) => products.find((p) => p.id === lineItem.item.id)?.digital)
+    .map((lineItem) => {
+      const productId = lineItem.item.id;
+      const query = new URLSearchParams({
+        order_id: orderId,
+        expires: String(expiresAt),
+        signature: computeSignature(
+          getDownloadPayload(orderId, productId, expiresAt),
+          getDownloadSigningSecret()
+        ),
+      });
+
+      return {
+        product_id: productId,
+        quantity: lineItem.item.quantity,
+        email,
+        download_url: `${baseUrl}/api/downloads/${productId}?${query.toString()}`,
+        expires_at: new Date(expiresAt * 1000).toISOString(),
+      };
+    });
+}
+
+/**
+ * Verifies a download link
+ * @param orderId - Order ID from the link
+ * @param productId - Product ID from the link
+ * @param expires - Expiry (Unix seconds) from the link
+ * @param signature - Signature from the link
+ * @returns True if the signature matches and the link has not expired
+ */
+export function verifyDownloadLink(
+  orderId: string,
+  productId: string,
+  expires: string,
+  signature: string
+): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+
+  return safeEqual(
+    computeSignature(getDownloadPayload(orderId, productId, expiresAt), getDownloadSigningSecret()),
+    signature
+  );
+}
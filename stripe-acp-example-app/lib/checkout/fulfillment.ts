@@ -0,0 +1,151 @@
+/**
+ * Checkout Fulfillment
+ *
+ * Responsibilities:
+ * - Work out whether a cart needs shipping, digital delivery or both
+ * - Build the fulfillment options offered for a cart and address
+ * - Keep the selected fulfillment option valid as the cart changes
+ * - List the session fields still missing before payment
+ */
+
+import {
+  CartItem,
+  CheckoutSession,
+  DigitalFulfillmentOption,
+  FulfillmentAddress,
+  FulfillmentOption,
+} from '@/lib/types/checkout';
+import { getCatalogProducts } from '@/lib/catalog/productCatalog';
+import { buildShippingOptions } from '@/lib/shipping/shippingRates';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DIGITAL_OPTION: DigitalFulfillmentOption = {
+  type: 'digital',
+  id: 'digital_delivery',
+  name: 'Digital Delivery',
+  amount: 0,
+  description: 'Download link sent to the buyer email',
+};
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Kinds of fulfillment a cart needs
+ */
+export interface FulfillmentRequirements {
+  shipping: boolean;
+  digital: boolean;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Checks whether a cart item is a digital product
+ * @param item - Cart item
+ * @returns True if the product is flagged digital in the catalog
+ */
+function isDigitalItem(item: CartItem): boolean {
+  const products = getCatalogProducts();
+  return products.find((p) => p.id === item.id)?.digital === true;
+}
+
+// ============================================================================
+// FULFILLMENT FUNCTIONS
+// ============================================================================
+
+/**
+ * Works out which kinds of fulfillment a cart needs
+ * @param items - Cart items
+ * @returns Whether shipping and/or digital delivery is required
+ */
+export function getFulfillmentRequirements(items: CartItem[]): FulfillmentRequirements {
+  return {
+    shipping: items.some((item) => !isDigitalItem(item)),
+    digital: items.some(isDigitalItem),
+  };
+}
+
+/**
+ * Builds the fulfillment options for a cart: shipping options for physical
+ * items once an address is known, and digital delivery for digital items
+ * @param address - Fulfillment address, if any
+ * @param items - Cart items
+ * @returns Fulfillment options
+ */
+export function buildFulfillmentOptions(
+  address: FulfillmentAddress | undefined,
+  items: CartItem[]
+): FulfillmentOption[] {
+  const physicalItems = items.filter((item) => !isDigitalItem(item));
+  const options: FulfillmentOption[] = buildShippingOptions(
+    physicalItems.length > 0 ? address : undefined,
+    physicalItems
+  );
+
+  if (physicalItems.length < items.length) {
+    options.push({ ...DIGITAL_OPTION });
+  }
+  return options;
+}
+
+/**
+ * Keeps a fulfillment option selection valid for the current options
+ * @param options - Options offered for the cart
+ * @param items - Cart items
+ * @param selectedId - Currently selected option ID
+ * @returns The selection if still offered and, for carts with physical items,
+ * a shipping option; digital delivery for digital-only carts; otherwise undefined
+ */
+export function resolveFulfillmentOptionId(
+  options: FulfillmentOption[],
+  items: CartItem[],
+  selectedId?: string
+): string | undefined {
+  const requirements = getFulfillmentRequirements(items);
+  const selectedOption = options.find((opt) => opt.id === selectedId);
+  if (selectedOption && (!requirements.shipping || selectedOption.type === 'shipping')) {
+    return selectedOption.id;
+  }
+
+  // Digital-only carts can only be fulfilled one way
+  return requirements.shipping ? undefined : DIGITAL_OPTION.id;
+}
+
+/**
+ * Lists the session fields that must be set before payment. Physical items
+ * need an address and a shipping option; digital items need a buyer email.
+ * @param checkout - Checkout session to inspect
+ * @returns Dotted field paths missing from the session
+ */
+export function getMissingFulfillmentParams(
+  checkout: Pick<
+    CheckoutSession,
+    'buyer' | 'line_items' | 'fulfillment_address' | 'fulfillment_options' | 'fulfillment_option_id'
+  >
+): string[] {
+  const requirements = getFulfillmentRequirements(
+    checkout.line_items.map((lineItem) => lineItem.item)
+  );
+  const selectedOption = checkout.fulfillment_options.find(
+    (opt) => opt.id === checkout.fulfillment_option_id
+  );
+  const missingParams: string[] = [];
+
+  if (requirements.shipping && !checkout.fulfillment_address) {
+    missingParams.push('fulfillment_address');
+  }
+  if (!selectedOption || (requirements.shipping && selectedOption.type !== 'shipping')) {
+    missingParams.push('fulfillment_option_id');
+  }
+  if (requirements.digital && !checkout.buyer?.email) {
+    missingParams.push('buyer.email');
+  }
+  return missingParams;
+}
@@ -0,0 +1,90 @@
+/**
+ * Idempotency Record Storage Utilities
+ *
+ * Responsibilities:
+ * - Read and write idempotency records to file storage
+ * - Drop records older than the configured TTL
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const IDEMPOTENCY_FILE_PATH = path.join(
+  process.cwd(),
+  'conversations',
+  'idempotency_keys.json'
+);
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Request made with an Idempotency-Key: reserved while its handler runs, then
+ * holding the cached response
+ */
+export interface IdempotencyRecord {
+  request_hash: string;
+  state: 'in_progress' | 'completed';
+  status?: number;
+  body?: string;
+  created_at: string;
+}
+
+// ============================================================================
+// STORAGE FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads the idempotency record TTL from environment
+ * @returns TTL in seconds
+ */
+export function getIdempotencyTtlSeconds(): number {
+  const configured = Number(process.env.ACP_IDEMPOTENCY_TTL_SECONDS);
+  return configured > 0 ? configured : DEFAULT_TTL_SECONDS;
+}
+
+/**
+ * Reads unexpired idempotency records from file storage
+ * @returns Map of idempotency records keyed by scoped idempotency key
+ */
+export function readIdempotencyRecordsFromFile(): Map<string, IdempotencyRecord> {
+  const records = new Map<string, IdempotencyRecord>();
+  try {
+    if (fs.existsSync(IDEMPOTENCY_FILE_PATH)) {
+      const fileContent = fs.readFileSync(IDEMPOTENCY_FILE_PATH, 'utf-8');
+      if (fileContent) {
+        const data: Array<[string, IdempotencyRecord]> = JSON.parse(fileContent);
+        const cutoff = Date.now() - getIdempotencyTtlSeconds() * 1000;
+        for (const [key, record] of data) {
+          if (Date.parse(record.created_at) >= cutoff) {
+            records.set(key, record);
+          }
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Error reading idempotency records file:', error);
+  }
+  return records;
+}
+
+/**
+ * Writes idempotency records to file storage
+ * @param records - Map of idempotency records to persist
+ */
+export function writeIdempotencyRecordsToFile(records: Map<string, IdempotencyRecord>): void {
+  try {
+    fs.mkdirSync(path.dirname(IDEMPOTENCY_FILE_PATH), { recursive: true });
+    const data = JSON.stringify(Array.from(records.entries()), null, 2);
+    fs.writeFileSync(IDEMPOTENCY_FILE_PATH, data, 'utf-8');
+  } catch (error) {
+    console.error('Error writing idempotency records file:', error);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Merchant Link Configuration
+ *
+ * Responsibilities:
+ * - Load legal and policy links from the merchant configuration
+ * - Provide the links attached to every checkout session
+ */
+
+import { Link } from '@/lib/types/checkout';
+import merchantData from '@/data/merchant.json';
+
+// ============================================================================
+// LINK FUNCTIONS
+// ============================================================================
+
+/**
+ * Returns the merchant links to display with a checkout session
+ * @returns Links configured in data/merchant.json
+ */
+export function getMerchantLinks(): Link[] {
+  return (merchantData.links as Link[]).map((link) => ({ ...link }));
+}
@@ -0,0 +1,202 @@
+/**
+ * Checkout Session Validation Messages
+ *
+ * Responsibilities:
+ * - Validate the cart, fulfillment address and buyer email of a checkout session
+ * - Build the info and error messages shown to the buyer on the session
+ */
+
+import { CheckoutSession, FulfillmentAddress, Message } from '@/lib/types/checkout';
+import { getCatalogProducts } from '@/lib/catalog/productCatalog';
+import { getFulfillmentRequirements } from '@/lib/checkout/fulfillment';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Address fields required by the spec, with their maximum length
+ */
+const ADDRESS_FIELD_LIMITS: Array<{ field: keyof FulfillmentAddress; maxLength: number; required: boolean }> = [
+  { field: 'name', maxLength: 256, required: true },
+  { field: 'line_one', maxLength: 60, required: true },
+  { field: 'line_two', maxLength: 60, required: false },
+  { field: 'city', maxLength: 60, required: true },
+  { field: 'state', maxLength: 60, required: true },
+  { field: 'country', maxLength: 2, required: true },
+  { field: 'postal_code', maxLength: 20, required: true },
+];
+
+/**
+ * Postal code formats for countries with a well-known pattern
+ */
+const POSTAL_CODE_PATTERNS: Record<string, RegExp> = {
+  US: /^\d{5}(-\d{4})?$/,
+  CA: /^[A-Za-z]\d[A-Za-z][ -]?\d[A-Za-z]\d$/,
+  GB: /^[A-Za-z]{1,2}\d[A-Za-z\d]? ?\d[A-Za-z]{2}$/,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  ES: /^\d{5}$/,
+  IT: /^\d{5}$/,
+  NL: /^\d{4} ?[A-Za-z]{2}$/,
+  AU: /^\d{4}$/,
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Validates line item quantities against product availability and inventory
+ * @param checkout - Checkout session to validate
+ * @returns Out of stock messages
+ */
+function validateInventory(checkout: CheckoutSession): Message[] {
+  const products = getCatalogProducts();
+  const messages: Message[] = [];
+
+  checkout.line_items.forEach((lineItem, index) => {
+    const product = products.find((p) => p.id === lineItem.item.id);
+    if (!product) {
+      return;
+    }
+
+    if (product.availability === 'out_of_stock' || product.inventory_quantity === 0) {
+      messages.push({
+        type: 'error',
+        code: 'out_of_stock',
+        param: `$.line_items[${index}]`,
+        content_type: 'plain',
+        content: `${product.name} is out of stock.`,
+      });
+    } else if (product.inventory_quantity !== undefined && lineItem.item.quantity > product.inventory_quantity) {
+      messages.push({
+        type: 'error',
+        code: 'out_of_stock',
+        param: `$.line_items[${index}]`,
+        content_type: 'plain',
+        content: `Only ${product.inventory_quantity} of ${product.name} left in stock.`,
+      });
+    }
+  });
+
+  return messages;
+}
+
+/**
+ * Validates the fulfillment address fields
+ * @param address - Fulfillment address to validate
+ * @returns Missing and invalid field messages
+ */
+function validateAddress(address: FulfillmentAddress): Message[] {
+  const messages: Message[] = [];
+
+  for (const { field, maxLength, required } of ADDRESS_FIELD_LIMITS) {
+    const value = address[field]?.trim();
+    if (!value) {
+      if (required) {
+        messages.push({
+          type: 'error',
+          code: 'missing',
+          param: `$.fulfillment_address.${field}`,
+          content_type: 'plain',
+          content: `Address ${field.replace('_', ' ')} is required.`,
+        });
+      }
+      continue;
+    }
+
+    if (value.length > maxLength) {
+      messages.push({
+        type: 'error',
+        code: 'invalid',
+        param: `$.fulfillment_address.${field}`,
+        content_type: 'plain',
+        content: `Address ${field.replace('_', ' ')} must be at most ${maxLength} characters.`,
+      });
+    }
+  }
+
+  const country = address.country?.trim().toUpperCase();
+  if (country && !/^[A-Z]{2}$/.test(country)) {
+    messages.push({
+      type: 'error',
+      code: 'invalid',
+      param: '$.fulfillment_address.country',
+      content_type: 'plain',
+      content: 'Country must be an ISO 3166-1 alpha-2 code, such as "US".',
+    });
+  }
+
+  const postalCodePattern = country ? POSTAL_CODE_PATTERNS[country] : undefined;
+  const postalCode = address.postal_code?.trim();
+  if (postalCodePattern && postalCode && !postalCodePattern.test(postalCode)) {
+    messages.push({
+      type: 'error',
+      code: 'invalid',
+      param: '$.fulfillment_address.postal_code',
+      content_type: 'plain',
+      content: `Invalid postal code for ${country}: ${postalCode}.`,
+    });
+  }
+
+  return messages;
+}
+
+// ============================================================================
+// MESSAGE FUNCTIONS
+// ============================================================================
+
+/**
+ * Builds the buyer-facing messages for a checkout session
+ * @param checkout - Checkout session to validate
+ * @returns Info and error messages; any error blocks payment
+ */
+export function buildCheckoutMessages(checkout: CheckoutSession): Message[] {
+  const messages = validateInventory(checkout);
+  const requirements = getFulfillmentRequirements(
+    checkout.line_items.map((lineItem) => lineItem.item)
+  );
+
+  if (checkout.fulfillment_address) {
+    messages.push(...validateAddress(checkout.fulfillment_address));
+  } else if (requirements.shipping) {
+    messages.push({
+      type: 'info',
+      param: '$.fulfillment_address',
+      content_type: 'plain',
+      content: 'Add a shipping address to see tax and shipping costs.',
+    });
+  }
+
+  const email = checkout.buyer?.email;
+  if (email && !EMAIL_PATTERN.test(email)) {
+    messages.push({
+      type: 'error',
+      code: 'invalid',
+      param: '$.buyer.email',
+      content_type: 'plain',
+      content: `${email} is not a valid email address.`,
+    });
+  } else if (!email && requirements.digital) {
+    messages.push({
+      type: 'info',
+      param: '$.buyer.email',
+      content_type: 'plain',
+      content: 'Add a buyer email to receive the download link for digital items.',
+    });
+  }
+
+  return messages;
+}
+
+/**
+ * Checks whether a session has messages that block payment
+ * @param messages - Messages attached to the session
+ * @returns True if any error message is present
+ */
+export function hasErrorMessages(messages: Message[]): boolean {
+  return messages.some((message) => message.type === 'error');
+}
@@ -0,0 +1,121 @@
+/**
+ * Order Creation
+ *
+ * Responsibilities:
+ * - Build orders for paid checkout sessions
+ * - Store at most one order per checkout session, whether the payment is
+ *   reported by the complete call or by a Stripe webhook
+ */
+
+import { CheckoutSession } from '@/lib/types/checkout';
+import { DigitalDelivery, Order } from '@/lib/types/order';
+import { readOrdersFromFile, writeOrdersToFile } from '@/lib/checkout/orderStorage';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Order for a paid checkout and whether this call created it
+ */
+export interface RecordedOrder {
+  order: Order;
+  created: boolean;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Creates an order after successful payment
+ * @param orderId - Order ID
+ * @param checkout - Checkout session being completed
+ * @param paymentIntentId - Stripe PaymentIntent ID
+ * @param amount - Total amount in cents
+ * @param deliveries - Delivery records for digital items
+ * @returns Order object
+ */
+function createOrder(
+  orderId: string,
+  checkout: CheckoutSession,
+  paymentIntentId: string,
+  amount: number,
+  deliveries: DigitalDelivery[]
+): Order {
+  const now = new Date().toISOString();
+  return {
+    id: orderId,
+    checkout_id: checkout.id,
+    payment_intent_id: paymentIntentId,
+    status: 'confirmed',
+    total_amount: amount,
+    currency: checkout.currency,
+    created_at: now,
+    updated_at: now,
+    confirmed_at: now,
+    line_items: checkout.line_items,
+    fulfillment_address: checkout.fulfillment_address,
+    fulfillment_option: checkout.fulfillment_options.find(
+      (opt) => opt.id === checkout.fulfillment_option_id
+    ),
+    ...(deliveries.length > 0 && { deliveries }),
+    refunds: [],
+    refunded_amount: 0,
+  };
+}
+
+// ============================================================================
+// ORDER FUNCTIONS
+// ============================================================================
+
+/**
+ * Generates a unique order ID
+ * @returns Order ID string
+ */
+export function generateOrderId(): string {
+  return `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Finds the order created for a checkout session
+ * @param orders - Stored orders
+ * @param checkoutId - Checkout session ID
+ * @returns Order, or undefined if the checkout has not been paid
+ */
+export function findOrderByCheckoutId(
+  orders: Map<string, Order>,
+  checkoutId: string
+): Order | undefined {
+  return Array.from(orders.values()).find((order) => order.checkout_id === checkoutId);
+}
+
+/**
+ * Stores the order for a paid checkout unless one already exists. Reading and
+ * writing happen without awaiting, so the complete call and a webhook for the
+ * same payment cannot both create an order.
+ * @param orderId - ID for the new order
+ * @param checkout - Checkout session that was paid
+ * @param paymentIntentId - Stripe PaymentIntent ID
+ * @param amount - Amount paid in minor units
+ * @param deliveries - Delivery records for digital items
+ * @returns The new or existing order
+ */
+export function recordPaidOrder(
+  orderId: string,
+  checkout: CheckoutSession,
+  paymentIntentId: string,
+  amount: number,
+  deliveries: DigitalDelivery[]
+): RecordedOrder {
+  const orders = readOrdersFromFile();
+  const existingOrder = findOrderByCheckoutId(orders, checkout.id);
+  if (existingOrder) {
+    return { order: existingOrder, created: false };
+  }
+
+  const order = createOrder(orderId, checkout, paymentIntentId, amount, deliveries);
+  orders.set(order.id, order);
+  writeOrdersToFile(orders);
+  return { order, created: true };
+}
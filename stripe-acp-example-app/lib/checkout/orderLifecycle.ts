@@ -0,0 +1,118 @@
+/**
+ * Order Lifecycle
+ *
+ * Responsibilities:
+ * - Define which status changes each order transition may perform
+ * - Apply transitions to orders and record their timestamps
+ * - Reject illegal transitions with ACP errors
+ */
+
+import { Order, OrderStatus, Shipment } from '@/lib/types/order';
+import { createAcpError } from '@/lib/acp/errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Merchant actions that move an order between statuses
+ */
+export type OrderTransition = 'fulfill' | 'ship' | 'deliver' | 'cancel';
+
+/**
+ * Transition rule for a single action
+ */
+interface TransitionRule {
+  from: OrderStatus[];
+  to: OrderStatus;
+  timestamp: 'fulfilled_at' | 'shipped_at' | 'delivered_at' | 'canceled_at';
+}
+
+/**
+ * Extra data recorded with a transition
+ */
+export interface OrderTransitionDetails {
+  shipment?: Shipment;
+  cancellation_reason?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Central transition table. Orders without shipping (digital items) may be
+ * marked delivered straight from fulfilled.
+ */
+const TRANSITIONS: Record<OrderTransition, TransitionRule> = {
+  fulfill: {
+    from: ['confirmed'],
+    to: 'fulfilled',
+    timestamp: 'fulfilled_at',
+  },
+  ship: {
+    from: ['fulfilled'],
+    to: 'shipped',
+    timestamp: 'shipped_at',
+  },
+  deliver: {
+    from: ['fulfilled', 'shipped'],
+    to: 'delivered',
+    timestamp: 'delivered_at',
+  },
+  // Orders that have left the warehouse cannot be canceled. Paid orders are
+  // refunded in full when canceled.
+  cancel: {
+    from: ['confirmed', 'fulfilled'],
+    to: 'canceled',
+    timestamp: 'canceled_at',
+  },
+};
+
+// ============================================================================
+// LIFECYCLE FUNCTIONS
+// ============================================================================
+
+/**
+ * Checks that a transition is legal for an order's current status
+ * @param order - Order to check
+ * @param transition - Transition to apply
+ * @throws AcpRequestError with code invalid_state if the transition is illegal
+ */
+export function assertCanApplyOrderTransition(order: Order, transition: OrderTransition): void {
+  if (!TRANSITIONS[transition].from.includes(order.status)) {
+    throw createAcpError(
+      'invalid_state',
+      `Cannot ${transition} order ${order.id} with status ${order.status}`,
+      '$.status'
+    );
+  }
+}
+
+/**
+ * Applies a transition to an order, updating status and timestamps in place
+ * @param order - Order to transition
+ * @param transition - Transition to apply
+ * @param details - Shipment or cancellation details to record
+ * @throws AcpRequestError with code invalid_state if the transition is illegal
+ */
+export function applyOrderTransition(
+  order: Order,
+  transition: OrderTransition,
+  details: OrderTransitionDetails = {}
+): void {
+  assertCanApplyOrderTransition(order, transition);
+
+  const rule = TRANSITIONS[transition];
+  const now = new Date().toISOString();
+  order.status = rule.to;
+  order[rule.timestamp] = now;
+  order.updated_at = now;
+
+  if (details.shipment) {
+    order.shipment = details.shipment;
+  }
+  if (details.cancellation_reason) {
+    order.cancellation_reason = details.cancellation_reason;
+  }
+}
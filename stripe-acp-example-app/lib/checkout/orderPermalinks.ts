@@ -0,0 +1,56 @@
+/**
+ * Order Permalinks
+ *
+ * Responsibilities:
+ * - Build signed links to the buyer-facing order status page
+ * - Verify order link signatures, so only holders of the link can see an order
+ */
+
+import { computeSignature, safeEqual } from '@/lib/acp/signature';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads the secret used to sign order links
+ * @returns Signing secret
+ * @throws Error if ORDER_LINK_SIGNING_SECRET is not set
+ */
+function getOrderLinkSigningSecret(): string {
+  const secret = process.env.ORDER_LINK_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('ORDER_LINK_SIGNING_SECRET environment variable is required for order links');
+  }
+  return secret;
+}
+
+// ============================================================================
+// PERMALINK FUNCTIONS
+// ============================================================================
+
+/**
+ * Builds the link the buyer opens to follow an order
+ * @param orderId - Order ID
+ * @param baseUrl - Origin the order page is served from
+ * @returns Signed URL of the order status page
+ * @throws Error if ORDER_LINK_SIGNING_SECRET is not set
+ */
+export function createOrderPermalink(orderId: string, baseUrl: string): string {
+  const signature = computeSignature(orderId, getOrderLinkSigningSecret());
+  return `${baseUrl}/orders/${orderId}?signature=${encodeURIComponent(signature)}`;
+}
+
+/**
+ * Verifies the signature of an order link
+ * @param orderId - Order ID from the link
+ * @param signature - Signature from the link
+ * @returns True if the signature was issued for the order
+ */
+export function verifyOrderPermalink(orderId: string, signature: string): boolean {
+  const secret = process.env.ORDER_LINK_SIGNING_SECRET;
+  if (!secret) {
+    return false;
+  }
+  return safeEqual(computeSignature(orderId, secret), signature);
+}
@@ -0,0 +1,58 @@
+/**
+ * Order Storage Utilities
+ *
+ * Responsibilities:
+ * - Read and write orders to file storage
+ * - Provide shared storage interface for checkout completion and the orders API
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Order } from '@/lib/types/order';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ORDERS_FILE_PATH = path.join(
+  process.cwd(),
+  'conversations',
+  'orders.json'
+);
+
+// ============================================================================
+// STORAGE FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads orders from file storage
+ * @returns Map of orders keyed by order ID
+ */
+export function readOrdersFromFile(): Map<string, Order> {
+  try {
+    if (fs.existsSync(ORDERS_FILE_PATH)) {
+      const fileContent = fs.readFileSync(ORDERS_FILE_PATH, 'utf-8');
+      if (fileContent) {
+        const data = JSON.parse(fileContent);
+        return new Map(data);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading orders file:', error);
+  }
+  return new Map<string, Order>();
+}
+
+/**
+ * Writes orders to file storage
+ * @param orders - Map of orders to persist
+ */
+export function writeOrdersToFile(orders: Map<string, Order>): void {
+  try {
+    fs.mkdirSync(path.dirname(ORDERS_FILE_PATH), { recursive: true });
+    const data = JSON.stringify(Array.from(orders.entries()), null, 2);
+    fs.writeFileSync(ORDERS_FILE_PATH, data, 'utf-8');
+  } catch (error) {
+    console.error('Error writing orders file:', error);
+  }
+}
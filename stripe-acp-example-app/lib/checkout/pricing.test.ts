@@ -0,0 +1,207 @@
+/**
+ * Property-based tests for the checkout pricing engine: allocation and
+ * rounding invariants over random carts, discounts and tax quotes
+ */
+
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { CartItem } from '@/lib/types/checkout';
+import { Product } from '@/lib/types/product';
+import { TaxQuote } from '@/lib/types/tax';
+import productsData from '@/data/products.json';
+import { allocateProportionally, calculatePricing, OrderDiscount } from '@/lib/checkout/pricing';
+
+// ============================================================================
+// ARBITRARIES
+// ============================================================================
+
+const productIds = (productsData as Product[]).map((product) => product.id);
+
+const amountArb = fc.integer({ min: 0, max: 10_000_000 });
+const weightsArb = fc.array(fc.integer({ min: 0, max: 1_000_000 }), { minLength: 1, maxLength: 20 });
+
+const itemsArb: fc.Arbitrary<CartItem[]> = fc.uniqueArray(
+  fc.record({
+    id: fc.constantFrom(...productIds),
+    quantity: fc.integer({ min: 1, max: 50 }),
+  }),
+  { minLength: 1, maxLength: productIds.length, selector: (item) => item.id }
+);
+
+const discountsArb: fc.Arbitrary<OrderDiscount[]> = fc.array(
+  fc.record({ label: fc.constant('Promo'), amount: fc.integer({ min: 0, max: 500_000 }) }),
+  { maxLength: 3 }
+);
+
+const rateArb = fc.constantFrom(0, 0.05, 0.0725, 0.08875, 0.1, 0.19, 0.2, 0.25);
+
+/**
+ * Tax quote with one rate per line of a cart of the given size
+ * @param lineCount - Number of line items
+ * @returns Arbitrary tax quote
+ */
+function taxQuoteArb(lineCount: number): fc.Arbitrary<TaxQuote> {
+  return fc.record({
+    jurisdiction: fc.constant({ code: 'XX', name: 'Test' }),
+    line_rates: fc.array(rateArb, { minLength: lineCount, maxLength: lineCount }),
+    shipping_rate: rateArb,
+    prices_include_tax: fc.boolean(),
+  });
+}
+
+const pricingInputArb = itemsArb.chain((items) =>
+  fc.record({
+    items: fc.constant(items),
+    fulfillmentAmount: fc.integer({ min: 0, max: 10_000 }),
+    discounts: discountsArb,
+    tax: fc.option(taxQuoteArb(items.length), { nil: undefined }),
+  })
+);
+
+/**
+ * Reads a total by label prefix
+ * @param totals - Checkout totals
+ * @param label - Label or label prefix
+ * @returns Amount, or 0 when absent
+ */
+function totalOf(totals: Array<{ label: string; amount: number }>, label: string): number {
+  return totals.find((total) => total.label.startsWith(label))?.amount || 0;
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('allocateProportionally', () => {
+  it('returns non-negative shares that sum exactly to the amount', () => {
+    fc.assert(
+      fc.property(amountArb, weightsArb, (amount, weights) => {
+        const shares = allocateProportionally(amount, weights);
+        expect(shares).toHaveLength(weights.length);
+        expect(shares.every((share) => Number.isInteger(share) && share >= 0)).toBe(true);
+        expect(shares.reduce((sum, share) => sum + share, 0)).toBe(amount);
+      })
+    );
+  });
+
+  it('keeps every share within one unit of its exact proportion', () => {
+    fc.assert(
+      fc.property(amountArb, weightsArb, (amount, weights) => {
+        const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+        const shares = allocateProportionally(amount, weights);
+        shares.forEach((share, index) => {
+          const exact = weightSum > 0 ? (amount * weights[index]) / weightSum : amount / weights.length;
+          expect(share).toBeGreaterThanOrEqual(Math.floor(exact));
+          expect(share).toBeLessThanOrEqual(Math.ceil(exact));
+        });
+      })
+    );
+  });
+
+  it('gives zero-weight parts nothing when another part has weight', () => {
+    fc.assert(
+      fc.property(amountArb, weightsArb, (amount, weights) => {
+        fc.pre(weights.some((weight) => weight > 0));
+        const shares = allocateProportionally(amount, weights);
+        weights.forEach((weight, index) => {
+          if (weight === 0) {
+            expect(shares[index]).toBe(0);
+          }
+        });
+      })
+    );
+  });
+
+  it('rounds the same way when all weights are scaled', () => {
+    fc.assert(
+      fc.property(amountArb, weightsArb, fc.integer({ min: 2, max: 100 }), (amount, weights, factor) => {
+        expect(allocateProportionally(amount, weights.map((weight) => weight * factor))).toEqual(
+          allocateProportionally(amount, weights)
+        );
+      })
+    );
+  });
+});
+
+describe('calculatePricing', () => {
+  it('keeps line items consistent and never negative', () => {
+    fc.assert(
+      fc.property(pricingInputArb, (input) => {
+        const { line_items: lineItems } = calculatePricing(input);
+        for (const line of lineItems) {
+          expect(line.base_amount).toBeGreaterThanOrEqual(0);
+          expect(line.discount).toBeGreaterThanOrEqual(0);
+          expect(line.subtotal).toBeGreaterThanOrEqual(0);
+          expect(line.tax).toBeGreaterThanOrEqual(0);
+          expect(line.subtotal).toBe(line.base_amount - line.discount);
+          expect(line.total).toBe(line.subtotal + line.tax);
+        }
+      })
+    );
+  });
+
+  it('makes line items add up to the totals', () => {
+    fc.assert(
+      fc.property(pricingInputArb, (input) => {
+        const { line_items: lineItems, totals } = calculatePricing(input);
+        const subtotal = totalOf(totals, 'Subtotal');
+        const shipping = totalOf(totals, 'Shipping');
+        const tax = totalOf(totals, 'Tax');
+
+        expect(subtotal).toBe(lineItems.reduce((sum, line) => sum + line.subtotal, 0));
+        expect(tax).toBeGreaterThanOrEqual(lineItems.reduce((sum, line) => sum + line.tax, 0));
+        expect(totalOf(totals, 'Total')).toBe(subtotal + shipping + tax);
+        expect(totalOf(totals, 'Discount')).toBe(lineItems.reduce((sum, line) => sum + line.discount, 0));
+      })
+    );
+  });
+
+  it('caps discounts at the value of the goods', () => {
+    fc.assert(
+      fc.property(pricingInputArb, (input) => {
+        const { line_items: lineItems, totals } = calculatePricing({ ...input, tax: undefined });
+        const baseTotal = lineItems.reduce((sum, line) => sum + line.base_amount, 0);
+        const requested = input.discounts.reduce((sum, discount) => sum + discount.amount, 0);
+        expect(totalOf(totals, 'Discount')).toBe(Math.min(requested, baseTotal));
+      })
+    );
+  });
+
+  it('keeps the catalog price as the total when prices include tax', () => {
+    fc.assert(
+      fc.property(pricingInputArb, (input) => {
+        const { tax } = input;
+        fc.pre(tax !== undefined);
+        const inclusive = { ...input, tax: { ...tax, prices_include_tax: true } };
+        const { totals } = calculatePricing(inclusive);
+        const { totals: untaxedTotals } = calculatePricing({ ...input, tax: undefined });
+        expect(totalOf(totals, 'Total')).toBe(totalOf(untaxedTotals, 'Total'));
+      })
+    );
+  });
+
+  it('rounds tax once per rate rather than once per line', () => {
+    fc.assert(
+      fc.property(pricingInputArb, rateArb, (input, rate) => {
+        const quote: TaxQuote = {
+          jurisdiction: { code: 'XX', name: 'Test' },
+          line_rates: input.items.map(() => rate),
+          shipping_rate: 0,
+          prices_include_tax: false,
+        };
+        const untaxed = calculatePricing({ ...input, tax: undefined });
+        const taxed = calculatePricing({ ...input, tax: quote });
+        const taxable = untaxed.line_items.reduce((sum, line) => sum + line.subtotal, 0);
+        expect(totalOf(taxed.totals, 'Tax')).toBe(Math.round(taxable * rate));
+      })
+    );
+  });
+
+  it('prices the same input identically every time', () => {
+    fc.assert(
+      fc.property(pricingInputArb, (input) => {
+        expect(calculatePricing(input)).toEqual(calculatePricing(input));
+      })
+    );
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Checkout Pricing Engine
+ *
+ * Responsibilities:
+ * - Build line items from cart items and the product catalog, at sale prices
+ *   while a promotion window is open
+ * - Allocate order-level discounts and tax across line items
+ * - Apply tax quotes, including tax-inclusive (VAT) prices and taxable shipping
+ * - Compute checkout totals from line items, shipping and tax
+ *
+ * Invariants (amounts in minor units):
+ * - line.subtotal = line.base_amount - line.discount
+ * - line.total = line.subtotal + line.tax
+ * - Subtotal = sum(line.subtotal), Tax = sum(line.tax) + shipping tax
+ * - Total = Subtotal + Shipping + Tax
+ *
+ * When prices include tax, the included tax is taken out of base_amount and
+ * Shipping, so Total still equals the catalog prices plus shipping.
+ */
+
+import {
+  CartItem,
+  CheckoutSession,
+  LineItem,
+  TotalItem,
+} from '@/lib/types/checkout';
+import { Product } from '@/lib/types/product';
+import { TaxQuote } from '@/lib/types/tax';
+import { getCatalogProducts } from '@/lib/catalog/productCatalog';
+import { createAcpError } from '@/lib/acp/errors';
+import { getTaxProvider } from '@/lib/tax/provider';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Order-level discount, spread across line items by base amount
+ */
+export interface OrderDiscount {
+  label: string;
+  amount: number;
+}
+
+/**
+ * Inputs to the pricing engine
+ */
+export interface PricingInput {
+  items: CartItem[];
+  fulfillmentAmount: number;
+  tax?: TaxQuote;
+  discounts?: OrderDiscount[];
+}
+
+/**
+ * Priced line items and totals
+ */
+export interface PricingResult {
+  line_items: LineItem[];
+  totals: TotalItem[];
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Splits an amount across weights so the parts sum exactly to the amount.
+ * Uses the largest remainder method: every part is floored, then the leftover
+ * units go to the parts with the largest remainder (earlier parts win ties).
+ * @param amount - Non-negative integer amount to split
+ * @param weights - Non-negative integer weights, one per part
+ * @returns Integer parts in the same order as weights
+ */
+export function allocateProportionally(amount: number, weights: number[]): number[] {
+  if (weights.length === 0) {
+    return [];
+  }
+
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  // Without any weight, split evenly
+  const effectiveWeights = weightSum > 0 ? weights : weights.map(() => 1);
+  const effectiveSum = weightSum > 0 ? weightSum : weights.length;
+
+  // Integer arithmetic keeps the split exact
+  const shares = effectiveWeights.map((weight, index) => {
+    const numerator = amount * weight;
+    const remainder = numerator % effectiveSum;
+    return { index, part: (numerator - remainder) / effectiveSum, remainder };
+  });
+
+  let leftover = amount - shares.reduce((sum, share) => sum + share.part, 0);
+  const byRemainder = [...shares].sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const share of byRemainder) {
+    if (leftover <= 0) {
+      break;
+    }
+    share.part += 1;
+    leftover -= 1;
+  }
+
+  return shares.map((share) => share.part);
+}
+
+/**
+ * Returns the unit price of a product at a point in time: the sale price while
+ * its effective window is open, otherwise the regular price
+ * @param product - Catalog product
+ * @param at - Time to price at
+ * @returns Unit price in minor units
+ */
+export function getUnitPrice(product: Product, at: Date = new Date()): number {
+  if (product.sale_price === undefined) {
+    return product.price;
+  }
+
+  const window = product.sale_price_effective_date;
+  if (!window) {
+    return product.sale_price;
+  }
+  const time = at.getTime();
+  return time >= Date.parse(window.start) && time < Date.parse(window.end)
+    ? product.sale_price
+    : product.price;
+}
+
+/**
+ * Builds line items at catalog prices, before discounts and tax
+ * @param items - Normalized cart items
+ * @returns Line items with base amounts
+ */
+function buildBaseLineItems(items: CartItem[]): LineItem[] {
+  const products = getCatalogProducts();
+
+  return items.map((item, index) => {
+    const product = products.find((p) => p.id === item.id);
+    if (!product) {
+      throw createAcpError('invalid', `Product not found: ${item.id}`, `$.items[${index}].id`);
+    }
+
+    const baseAmount = getUnitPrice(product) * item.quantity;
+    return {
+      id: item.id,
+      item: { ...item },
+      base_amount: baseAmount,
+      discount: 0,
+      subtotal: baseAmount,
+      tax: 0,
+      total: baseAmount,
+    };
+  });
+}
+
+/**
+ * Computes the tax on an amount at a rate
+ * @param amount - Taxable amount
+ * @param rate - Tax rate
+ * @param inclusive - Whether the amount already includes the tax
+ * @returns Rounded tax amount
+ */
+function computeTax(amount: number, rate: number, inclusive: boolean): number {
+  return Math.round(inclusive ? (amount * rate) / (1 + rate) : amount * rate);
+}
+
+/**
+ * Applies line rates from a tax quote. Lines sharing a rate are taxed on their
+ * combined subtotal and the result is allocated back, so rounding happens once
+ * per rate rather than once per line.
+ * @param lineItems - Line items with discounts applied, updated in place
+ * @param quote - Tax quote with one rate per line item
+ */
+function applyLineTaxes(lineItems: LineItem[], quote: TaxQuote): void {
+  const indicesByRate = new Map<number, number[]>();
+  quote.line_rates.forEach((rate, index) => {
+    indicesByRate.set(rate, [...(indicesByRate.get(rate) || []), index]);
+  });
+
+  for (const [rate, indices] of indicesByRate) {
+    const subtotals = indices.map((index) => lineItems[index].subtotal);
+    const taxable = subtotals.reduce((sum, amount) => sum + amount, 0);
+    const lineTaxes = allocateProportionally(
+      computeTax(taxable, rate, quote.prices_include_tax),
+      subtotals
+    );
+
+    indices.forEach((lineIndex, position) => {
+      const item = lineItems[lineIndex];
+      item.tax = lineTaxes[position];
+      if (quote.prices_include_tax) {
+        // Move the included tax out of the catalog price
+        item.base_amount -= item.tax;
+        item.subtotal -= item.tax;
+      }
+    });
+  }
+}
+
+/**
+ * Builds the label of the tax total
+ * @param quote - Tax quote, if tax applies
+ * @returns Label naming the jurisdiction
+ */
+function getTaxLabel(quote?: TaxQuote): string {
+  if (!quote) {
+    return 'Tax';
+  }
+  return quote.prices_include_tax
+    ? `Tax included in prices (${quote.jurisdiction.name})`
+    : `Tax (${quote.jurisdiction.name})`;
+}
+
+// ============================================================================
+// PRICING FUNCTIONS
+// ============================================================================
+
+/**
+ * Prices a cart: builds line items, allocates discounts and tax, computes totals
+ * @param input - Cart items, fulfillment amount, tax quote and discounts
+ * @returns Line items and totals that satisfy the engine invariants
+ */
+export function calculatePricing(input: PricingInput): PricingResult {
+  const lineItems = buildBaseLineItems(input.items);
+
+  // Discounts can never exceed the value of the goods
+  const baseTotal = lineItems.reduce((sum, item) => sum + item.base_amount, 0);
+  const requestedDiscount = (input.discounts || []).reduce(
+    (sum, discount) => sum + Math.max(0, Math.round(discount.amount)),
+    0
+  );
+  const discountTotal = Math.min(requestedDiscount, baseTotal);
+  const lineDiscounts = allocateProportionally(
+    discountTotal,
+    lineItems.map((item) => item.base_amount)
+  );
+  lineItems.forEach((item, index) => {
+    item.discount = lineDiscounts[index];
+    item.subtotal = item.base_amount - item.discount;
+  });
+
+  let shippingAmount = input.fulfillmentAmount;
+  let shippingTax = 0;
+  if (input.tax) {
+    applyLineTaxes(lineItems, input.tax);
+    shippingTax = computeTax(shippingAmount, input.tax.shipping_rate, input.tax.prices_include_tax);
+    if (input.tax.prices_include_tax) {
+      shippingAmount -= shippingTax;
+    }
+  }
+  lineItems.forEach((item) => {
+    item.total = item.subtotal + item.tax;
+  });
+
+  const subtotal = lineItems.reduce((sum, item) => sum + item.subtotal, 0);
+  const taxAmount = lineItems.reduce((sum, item) => sum + item.tax, 0) + shippingTax;
+
+  const totals: TotalItem[] = [];
+  if (discountTotal > 0) {
+    totals.push({ label: 'Discount', amount: discountTotal });
+  }
+  totals.push(
+    { label: 'Subtotal', amount: subtotal },
+    { label: 'Shipping', amount: shippingAmount },
+    { label: getTaxLabel(input.tax), amount: taxAmount },
+    { label: 'Total', amount: subtotal + shippingAmount + taxAmount }
+  );
+
+  return { line_items: lineItems, totals };
+}
+
+/**
+ * Prices a checkout session from its selected fulfillment option and address.
+ * Tax is only quoted once a fulfillment address is known.
+ * @param checkout - Session fields that affect pricing
+ * @param items - Cart items to price
+ * @returns Line items and totals for the session
+ */
+export async function priceCheckoutSession(
+  checkout: Pick<
+    CheckoutSession,
+    'currency' | 'fulfillment_address' | 'fulfillment_options' | 'fulfillment_option_id'
+  >,
+  items: CartItem[]
+): Promise<PricingResult> {
+  const fulfillmentOption = checkout.fulfillment_options.find(
+    (opt) => opt.id === checkout.fulfillment_option_id
+  );
+  const fulfillmentAmount = fulfillmentOption?.amount || 0;
+
+  if (!checkout.fulfillment_address) {
+    return calculatePricing({ items, fulfillmentAmount });
+  }
+
+  // Price once without tax to get the taxable line subtotals
+  const untaxed = calculatePricing({ items, fulfillmentAmount });
+  const products = getCatalogProducts();
+  const tax = await getTaxProvider().quoteTax({
+    address: checkout.fulfillment_address,
+    currency: checkout.currency,
+    lines: untaxed.line_items.map((lineItem) => ({
+      id: lineItem.id,
+      amount: lineItem.subtotal,
+      category: products.find((p) => p.id === lineItem.item.id)?.category,
+    })),
+    shipping_amount: fulfillmentAmount,
+  });
+
+  return calculatePricing({ items, fulfillmentAmount, tax });
+}
@@ -0,0 +1,267 @@
+/**
+ * Order Refund Planning
+ *
+ * Responsibilities:
+ * - Work out the amount and line items a refund request covers
+ * - Enforce the merchant refund policy (return window, non-refundable categories)
+ * - Reject refunds above the amount still captured on the order
+ */
+
+import { LineItem } from '@/lib/types/checkout';
+import { CreateRefundRequest, Order, OrderRefund, RefundLineItem } from '@/lib/types/order';
+import { getCatalogProducts } from '@/lib/catalog/productCatalog';
+import merchantData from '@/data/merchant.json';
+import { createAcpError } from '@/lib/acp/errors';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Merchant refund policy from data/merchant.json
+ */
+interface RefundPolicy {
+  return_window_days: number;
+  non_refundable_categories: string[];
+}
+
+/**
+ * Amount and line items a refund will cover
+ */
+export interface RefundPlan {
+  amount: number;
+  line_items: RefundLineItem[];
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads the merchant refund policy
+ * @returns Return window and non-refundable categories
+ */
+function getRefundPolicy(): RefundPolicy {
+  return merchantData.refund_policy as RefundPolicy;
+}
+
+/**
+ * Lists refunds that count against the captured amount
+ * @param order - Order to inspect
+ * @returns Refunds that have not failed or been canceled
+ */
+function getActiveRefunds(order: Order): OrderRefund[] {
+  return (order.refunds || []).filter(
+    (refund) => refund.status !== 'failed' && refund.status !== 'canceled'
+  );
+}
+
+/**
+ * Sums the quantity and amount already refunded for a line item
+ * @param order - Order to inspect
+ * @param lineItemId - Line item ID
+ * @returns Refunded quantity and amount
+ */
+function getRefundedForLine(
+  order: Order,
+  lineItemId: string
+): { quantity: number; amount: number } {
+  const refunded = { quantity: 0, amount: 0 };
+  for (const refund of getActiveRefunds(order)) {
+    for (const line of refund.line_items || []) {
+      if (line.id === lineItemId) {
+        refunded.quantity += line.quantity;
+        refunded.amount += line.amount;
+      }
+    }
+  }
+  return refunded;
+}
+
+/**
+ * Computes the refund for part of a line item. Refunding the last remaining
+ * units returns whatever is left, so rounding never over- or under-refunds.
+ * @param order - Order the line item belongs to
+ * @param lineItem - Line item to refund
+ * @param quantity - Units to refund
+ * @returns Refund line with amount
+ */
+function refundLine(order: Order, lineItem: LineItem, quantity: number): RefundLineItem {
+  const refunded = getRefundedForLine(order, lineItem.id);
+  const remainingQuantity = lineItem.item.quantity - refunded.quantity;
+  const amount =
+    quantity === remainingQuantity
+      ? lineItem.total - refunded.amount
+      : Math.round((lineItem.total * quantity) / lineItem.item.quantity);
+  return { id: lineItem.id, quantity, amount };
+}
+
+/**
+ * Checks whether a line item may be refunded under the merchant policy
+ * @param lineItem - Line item to check
+ * @param policy - Merchant refund policy
+ * @returns False if the product category is non-refundable
+ */
+function isRefundableLine(lineItem: LineItem, policy: RefundPolicy): boolean {
+  const products = getCatalogProducts();
+  const category = products.find((p) => p.id === lineItem.item.id)?.category;
+  return !category || !policy.non_refundable_categories.includes(category);
+}
+
+/**
+ * Refunds every remaining unit of the given line items
+ * @param order - Order to refund
+ * @param lineItems - Line items to include
+ * @returns Refund lines for units not yet refunded
+ */
+function refundRemainingLines(order: Order, lineItems: LineItem[]): RefundLineItem[] {
+  return lineItems
+    .map((lineItem) => {
+      const remaining = lineItem.item.quantity - getRefundedForLine(order, lineItem.id).quantity;
+      return remaining > 0 ? refundLine(order, lineItem, remaining) : null;
+    })
+    .filter((line): line is RefundLineItem => line !== null);
+}
+
+/**
+ * Validates requested line items and prices them
+ * @param order - Order to refund
+ * @param requested - Line items and quantities from the request
+ * @param policy - Merchant refund policy, or null when overridden
+ * @returns Refund lines
+ */
+function planLineItemRefund(
+  order: Order,
+  requested: Array<{ id: string; quantity: number }>,
+  policy: RefundPolicy | null
+): RefundLineItem[] {
+  if (!Array.isArray(requested) || requested.length === 0) {
+    throw createAcpError('invalid', 'line_items must list at least one line item', '$.line_items');
+  }
+
+  const seenIds = new Set<string>();
+  return requested.map((line, index) => {
+    const lineItem = order.line_items.find((item) => item.id === line.id);
+    if (!lineItem || seenIds.has(line.id)) {
+      throw createAcpError(
+        'invalid',
+        lineItem ? `Line item listed twice: ${line.id}` : `Line item not found on order: ${line.id}`,
+        `$.line_items[${index}].id`
+      );
+    }
+    seenIds.add(line.id);
+
+    if (policy && !isRefundableLine(lineItem, policy)) {
+      throw createAcpError(
+        'invalid',
+        `Line item ${line.id} is in a non-refundable category`,
+        `$.line_items[${index}].id`,
+        422
+      );
+    }
+
+    const remaining = lineItem.item.quantity - getRefundedForLine(order, lineItem.id).quantity;
+    if (!Number.isInteger(line.quantity) || line.quantity < 1 || line.quantity > remaining) {
+      throw createAcpError(
+        'invalid',
+        `Quantity must be a whole number between 1 and ${remaining} for line item ${line.id}`,
+        `$.line_items[${index}].quantity`
+      );
+    }
+
+    return refundLine(order, lineItem, line.quantity);
+  });
+}
+
+// ============================================================================
+// REFUND FUNCTIONS
+// ============================================================================
+
+/**
+ * Works out what a refund request covers, enforcing the merchant policy
+ * unless override_policy is set
+ * @param order - Order to refund
+ * @param request - Amount, line items or neither (refund everything refundable)
+ * @returns Amount and line items to refund
+ * @throws AcpRequestError if the request breaks the policy or exceeds the
+ * amount still captured
+ */
+export function planRefund(order: Order, request: CreateRefundRequest): RefundPlan {
+  const policy = request.override_policy === true ? null : getRefundPolicy();
+
+  if (policy) {
+    const windowStart = Date.parse(order.delivered_at || order.created_at);
+    if (Date.now() - windowStart > policy.return_window_days * DAY_MS) {
+      throw createAcpError(
+        'invalid',
+        `The ${policy.return_window_days} day return window for order ${order.id} has passed`,
+        undefined,
+        422
+      );
+    }
+  }
+
+  if (request.amount !== undefined && request.line_items !== undefined) {
+    throw createAcpError('invalid', 'Send either amount or line_items, not both', '$.amount');
+  }
+
+  // The order total is the amount captured when the checkout completed
+  const remainingBalance = order.total_amount - (order.refunded_amount || 0);
+  const refundableLines = policy
+    ? order.line_items.filter((lineItem) => isRefundableLine(lineItem, policy))
+    : order.line_items;
+
+  let plan: RefundPlan;
+  if (request.line_items !== undefined) {
+    const lines = planLineItemRefund(order, request.line_items, policy);
+    plan = { amount: lines.reduce((sum, line) => sum + line.amount, 0), line_items: lines };
+  } else if (request.amount !== undefined) {
+    if (!Number.isInteger(request.amount) || request.amount < 1) {
+      throw createAcpError('invalid', 'amount must be a positive integer in minor units', '$.amount');
+    }
+    if (policy && refundableLines.length < order.line_items.length) {
+      const refundableValue = refundRemainingLines(order, refundableLines).reduce(
+        (sum, line) => sum + line.amount,
+        0
+      );
+      if (request.amount > refundableValue) {
+        throw createAcpError(
+          'invalid',
+          `Only ${refundableValue} of this order is refundable under the merchant policy`,
+          '$.amount',
+          422
+        );
+      }
+    }
+    plan = { amount: request.amount, line_items: [] };
+  } else {
+    // Full refund: everything left, including shipping when no item is excluded
+    const lines = refundRemainingLines(order, refundableLines);
+    plan = {
+      amount:
+        refundableLines.length === order.line_items.length
+          ? remainingBalance
+          : lines.reduce((sum, line) => sum + line.amount, 0),
+      line_items: lines,
+    };
+  }
+
+  if (plan.amount < 1) {
+    throw createAcpError('invalid', `Nothing left to refund on order ${order.id}`, undefined, 422);
+  }
+  if (plan.amount > remainingBalance) {
+    throw createAcpError(
+      'invalid',
+      `Refund of ${plan.amount} exceeds the ${remainingBalance} still captured on order ${order.id}`,
+      request.line_items !== undefined ? '$.line_items' : '$.amount'
+    );
+  }
+
+  return plan;
+}
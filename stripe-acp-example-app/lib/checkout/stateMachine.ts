@@ -0,0 +1,141 @@
+/**
+ * Checkout Session State Machine
+ *
+ * Responsibilities:
+ * - Define which status changes each checkout event may perform
+ * - Derive readiness status from the session contents
+ * - Apply events to sessions and reject illegal transitions with ACP errors
+ */
+
+import { CheckoutSession, CheckoutStatus } from '@/lib/types/checkout';
+import { createAcpError } from '@/lib/acp/errors';
+import { hasErrorMessages } from '@/lib/checkout/messages';
+import { getMissingFulfillmentParams } from '@/lib/checkout/fulfillment';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Events that move a checkout session between statuses
+ */
+export type CheckoutEvent =
+  | 'update'
+  | 'begin_payment'
+  | 'fail_payment'
+  | 'complete'
+  | 'reconcile_payment'
+  | 'cancel';
+
+/**
+ * Transition rule for a single event
+ */
+interface TransitionRule {
+  from: CheckoutStatus[];
+  to: CheckoutStatus | 'derived';
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Central transition table. An event may only be applied to a session whose
+ * status is listed in `from`. A `derived` target is resolved from the session
+ * contents via deriveReadinessStatus.
+ */
+const TRANSITIONS: Record<CheckoutEvent, TransitionRule> = {
+  update: {
+    from: ['not_ready_for_payment', 'ready_for_payment'],
+    to: 'derived',
+  },
+  begin_payment: {
+    from: ['ready_for_payment'],
+    to: 'in_progress',
+  },
+  fail_payment: {
+    from: ['in_progress'],
+    to: 'ready_for_payment',
+  },
+  complete: {
+    from: ['in_progress'],
+    to: 'completed',
+  },
+  // Payment confirmed by a Stripe webhook without a complete call, e.g. when
+  // the chat broke after the buyer paid
+  reconcile_payment: {
+    from: ['ready_for_payment', 'in_progress'],
+    to: 'completed',
+  },
+  // A session being paid can be canceled too; its pending PaymentIntent is
+  // canceled with it
+  cancel: {
+    from: ['not_ready_for_payment', 'ready_for_payment', 'in_progress'],
+    to: 'canceled',
+  },
+};
+
+// ============================================================================
+// STATE MACHINE FUNCTIONS
+// ============================================================================
+
+/**
+ * Derives the readiness status of an open checkout session
+ * @param checkout - Checkout session to inspect
+ * @returns ready_for_payment when everything the cart needs for fulfillment
+ * is set and no error messages are attached
+ */
+export function deriveReadinessStatus(
+  checkout: Pick<
+    CheckoutSession,
+    | 'buyer'
+    | 'line_items'
+    | 'fulfillment_address'
+    | 'fulfillment_options'
+    | 'fulfillment_option_id'
+    | 'messages'
+  >
+): CheckoutStatus {
+  return getMissingFulfillmentParams(checkout).length === 0 && !hasErrorMessages(checkout.messages)
+    ? 'ready_for_payment'
+    : 'not_ready_for_payment';
+}
+
+/**
+ * Checks whether an event may be applied to a session in the given status
+ * @param status - Current checkout status
+ * @param event - Event to apply
+ * @returns True if the transition is allowed
+ */
+export function canApplyEvent(status: CheckoutStatus, event: CheckoutEvent): boolean {
+  return TRANSITIONS[event].from.includes(status);
+}
+
+/**
+ * Ensures an event may be applied to a checkout session
+ * @param checkout - Checkout session to inspect
+ * @param event - Event to apply
+ * @throws AcpRequestError with code invalid_state if the transition is illegal
+ */
+export function assertCanApplyEvent(checkout: CheckoutSession, event: CheckoutEvent): void {
+  if (!canApplyEvent(checkout.status, event)) {
+    throw createAcpError(
+      'invalid_state',
+      `Cannot ${event} checkout session ${checkout.id} with status ${checkout.status}`,
+      '$.status'
+    );
+  }
+}
+
+/**
+ * Applies an event to a checkout session, updating its status in place
+ * @param checkout - Checkout session to transition
+ * @param event - Event to apply
+ * @throws AcpRequestError with code invalid_state if the transition is illegal
+ */
+export function applyCheckoutEvent(checkout: CheckoutSession, event: CheckoutEvent): void {
+  assertCanApplyEvent(checkout, event);
+
+  const rule = TRANSITIONS[event];
+  checkout.status = rule.to === 'derived' ? deriveReadinessStatus(checkout) : rule.to;
+}
@@ -0,0 +1,250 @@
+/**
+ * Product Feed Export
+ *
+ * Responsibilities:
+ * - Map catalog products to flat records named after Product Feed Spec
+ *   attributes (title, image_link, price "79.99 USD", ...)
+ * - Render records as JSONL, CSV, TSV or XML one product at a time, so large
+ *   catalogs are streamed rather than built up in memory
+ * - Build web streams of the rendered feed, optionally gzipped
+ */
+
+import { FeedExportFormat, Product } from '@/lib/types/product';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const FEED_EXPORT_FORMATS: FeedExportFormat[] = ['jsonl', 'csv', 'tsv', 'xml'];
+
+/**
+ * Content type of each export format
+ */
+export const FEED_CONTENT_TYPES: Record<FeedExportFormat, string> = {
+  jsonl: 'application/x-ndjson',
+  csv: 'text/csv; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+  xml: 'application/xml; charset=utf-8',
+};
+
+/**
+ * Spec attributes in column order
+ */
+const FEED_ATTRIBUTES = [
+  'id',
+  'title',
+  'description',
+  'enable_search',
+  'enable_checkout',
+  'brand',
+  'gtin',
+  'mpn',
+  'condition',
+  'product_category',
+  'image_link',
+  'additional_image_link',
+  'video_link',
+  'model_3d_link',
+  'price',
+  'sale_price',
+  'sale_price_effective_date',
+  'availability',
+  'availability_date',
+  'inventory_quantity',
+  'item_group_id',
+  'item_group_title',
+  'color',
+  'size',
+  'size_system',
+  'gender',
+  'weight',
+  'dimensions',
+] as const;
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+type FeedAttribute = (typeof FEED_ATTRIBUTES)[number];
+
+/**
+ * Product as a flat record keyed by spec attribute; unset attributes are absent
+ */
+type FeedRecord = Partial<Record<FeedAttribute, string>>;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Formats an amount in minor units the way the spec expects, e.g. "79.99 USD"
+ * @param amount - Amount in minor units
+ * @param currency - Currency code
+ * @returns Amount with currency code
+ */
+function formatFeedPrice(amount: number, currency: string): string {
+  return `${(amount / 100).toFixed(2)} ${currency.toUpperCase()}`;
+}
+
+/**
+ * Maps a catalog product to a spec feed record
+ * @param product - Catalog product
+ * @returns Feed record
+ */
+function toFeedRecord(product: Product): FeedRecord {
+  const dimensions = product.dimensions_cm;
+  const record: FeedRecord = {
+    id: product.id,
+    title: product.name,
+    description: product.description,
+    enable_search: String(product.enable_search),
+    enable_checkout: String(product.enable_checkout),
+    brand: product.brand,
+    gtin: product.gtin,
+    mpn: product.mpn,
+    condition: product.condition,
+    product_category: product.category,
+    image_link: product.image_url,
+    additional_image_link: product.additional_image_urls?.join(','),
+    video_link: product.video_urls?.join(','),
+    model_3d_link: product.model_3d_urls?.join(','),
+    price: formatFeedPrice(product.price, product.currency),
+    sale_price:
+      product.sale_price === undefined
+        ? undefined
+        : formatFeedPrice(product.sale_price, product.currency),
+    sale_price_effective_date: product.sale_price_effective_date
+      ? `${product.sale_price_effective_date.start} / ${product.sale_price_effective_date.end}`
+      : undefined,
+    availability: product.availability,
+    availability_date: product.availability_date,
+    inventory_quantity: product.inventory_quantity?.toString(),
+    item_group_id: product.item_group_id,
+    item_group_title: product.item_group_title,
+    color: product.color,
+    size: product.size,
+    size_system: product.size_system,
+    gender: product.gender,
+    weight: product.weight_grams === undefined ? undefined : `${product.weight_grams} g`,
+    dimensions: dimensions
+      ? `${dimensions.length}x${dimensions.width}x${dimensions.height} cm`
+      : undefined,
+  };
+
+  return Object.fromEntries(
+    Object.entries(record).filter(([, value]) => value !== undefined && value !== '')
+  ) as FeedRecord;
+}
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+ * @param value - Field value
+ * @returns CSV-safe field
+ */
+function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Makes a TSV field safe; TSV has no quoting, so tabs and line breaks become spaces
+ * @param value - Field value
+ * @returns TSV-safe field
+ */
+function toTsvField(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ');
+}
+
+/**
+ * Escapes text for use in XML element content
+ * @param value - Text to escape
+ * @returns Escaped text
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// ============================================================================
+// EXPORT FUNCTIONS
+// ============================================================================
+
+/**
+ * Checks whether a value names a supported export format
+ * @param value - Requested format
+ * @returns True for jsonl, csv, tsv and xml
+ */
+export function isFeedExportFormat(value: string): value is FeedExportFormat {
+  return (FEED_EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Renders products in an export format, yielding one chunk per product plus
+ * any header or footer
+ * @param products - Products to export
+ * @param format - Export format
+ * @returns Text chunks of the feed
+ */
+export function* renderProductFeed(
+  products: Iterable<Product>,
+  format: FeedExportFormat
+): Generator<string> {
+  if (format === 'csv' || format === 'tsv') {
+    const [separator, toField] = format === 'csv' ? [',', toCsvField] : ['\t', toTsvField];
+    yield `${FEED_ATTRIBUTES.join(separator)}\n`;
+    for (const product of products) {
+      const record = toFeedRecord(product);
+      yield `${FEED_ATTRIBUTES.map((attribute) => toField(record[attribute] || '')).join(separator)}\n`;
+    }
+    return;
+  }
+
+  if (format === 'xml') {
+    yield '<?xml version="1.0" encoding="UTF-8"?>\n<products>\n';
+    for (const product of products) {
+      const fields = Object.entries(toFeedRecord(product)).map(
+        ([attribute, value]) => `    <${attribute}>${escapeXml(value)}</${attribute}>\n`
+      );
+      yield `  <product>\n${fields.join('')}  </product>\n`;
+    }
+    yield '</products>\n';
+    return;
+  }
+
+  for (const product of products) {
+    yield `${JSON.stringify(toFeedRecord(product))}\n`;
+  }
+}
+
+/**
+ * Builds a byte stream of the rendered feed that renders each product only
+ * when the consumer reads it
+ * @param products - Products to export
+ * @param format - Export format
+ * @param gzip - Whether to gzip the output
+ * @returns Readable web stream of the feed
+ */
+export function createProductFeedStream(
+  products: Iterable<Product>,
+  format: FeedExportFormat,
+  gzip: boolean
+): ReadableStream<BufferSource> {
+  const chunks = renderProductFeed(products, format);
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<BufferSource>({
+    pull(controller) {
+      const next = chunks.next();
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(next.value));
+      }
+    },
+  });
+
+  return gzip ? stream.pipeThrough(new CompressionStream('gzip')) : stream;
+}
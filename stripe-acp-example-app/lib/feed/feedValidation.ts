@@ -0,0 +1,459 @@
+/**
+ * Product Feed Validation
+ *
+ * Responsibilities:
+ * - Check catalog items against the Product Feed Spec: required fields,
+ *   value formats, enums and length limits
+ * - Check the rules checkout relies on (positive integer prices, ISO currency,
+ *   sale price windows, shipping weight of physical items)
+ * - Report errors and warnings per item and field
+ * - Drop invalid items before the feed is served
+ */
+
+import { FeedIssue, FeedIssueSeverity, FeedValidationReport, Product } from '@/lib/types/product';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CONDITIONS = ['new', 'refurbished', 'used'];
+const AVAILABILITIES = ['in_stock', 'out_of_stock', 'preorder'];
+const GENDERS = ['male', 'female', 'unisex'];
+
+/**
+ * Maximum lengths of text fields, from the spec's validation rules
+ */
+const MAX_LENGTHS: Record<string, number> = {
+  id: 100,
+  name: 150,
+  description: 5000,
+  brand: 70,
+  mpn: 70,
+  item_group_id: 70,
+  item_group_title: 150,
+  color: 40,
+  size: 20,
+};
+
+const ID_PATTERN = /^[A-Za-z0-9_.-]+$/;
+const CURRENCY_PATTERN = /^[A-Za-z]{3}$/;
+const GTIN_PATTERN = /^\d{8,14}$/;
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+const HTML_TAG_PATTERN = /<\/?[a-z][^>]*>/i;
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Records issues for one feed item
+ */
+type IssueReporter = (field: string, severity: FeedIssueSeverity, message: string) => void;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Checks whether a value is a non-empty string
+ * @param value - Value to check
+ * @returns True for strings with non-whitespace content
+ */
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Checks whether a value is an absolute http(s) URL
+ * @param value - Value to check
+ * @returns True for parseable http and https URLs
+ */
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'https:' || url.protocol === 'http:') && url.hostname.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether a value is an ISO 8601 date or date-time
+ * @param value - Value to check
+ * @returns True if the value parses to a valid date
+ */
+function isIsoDate(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    /^\d{4}-\d{2}-\d{2}/.test(value) &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+/**
+ * Verifies the GS1 check digit of a GTIN (UPC, EAN or ISBN-13)
+ * @param gtin - 8 to 14 digit GTIN
+ * @returns True if the last digit matches the computed check digit
+ */
+function hasValidGtinCheckDigit(gtin: string): boolean {
+  const digits = gtin.split('').map(Number);
+  const checkDigit = digits.pop();
+  // Weights alternate 3, 1, ... starting from the digit next to the check digit
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+/**
+ * Validates an optional text field against its maximum length
+ * @param item - Feed item
+ * @param field - Field name
+ * @param report - Issue reporter for the item
+ */
+function checkLength(item: Record<string, unknown>, field: string, report: IssueReporter): void {
+  const value = item[field];
+  if (value === undefined) {
+    return;
+  }
+  if (typeof value !== 'string') {
+    report(field, 'error', `${field} must be a string`);
+  } else if (value.length > MAX_LENGTHS[field]) {
+    report(field, 'error', `${field} must be at most ${MAX_LENGTHS[field]} characters`);
+  }
+}
+
+/**
+ * Validates an optional list of media URLs
+ * @param item - Feed item
+ * @param field - Field name
+ * @param report - Issue reporter for the item
+ */
+function checkUrlList(item: Record<string, unknown>, field: string, report: IssueReporter): void {
+  const value = item[field];
+  if (value === undefined) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    report(field, 'error', `${field} must be a list of URLs`);
+    return;
+  }
+  value.forEach((url, index) => {
+    if (!isHttpUrl(url)) {
+      report(`${field}[${index}]`, 'error', `${field}[${index}] is not a valid http(s) URL`);
+    }
+  });
+}
+
+/**
+ * Validates identifiers, text and flags of a feed item
+ * @param item - Feed item
+ * @param report - Issue reporter for the item
+ */
+function checkBasicData(item: Record<string, unknown>, report: IssueReporter): void {
+  if (!isNonEmptyString(item.id)) {
+    report('id', 'error', 'id is required');
+  } else if (!ID_PATTERN.test(item.id)) {
+    report('id', 'error', 'id may only contain letters, digits, "_", "-" and "."');
+  }
+  checkLength(item, 'id', report);
+
+  if (!isNonEmptyString(item.name)) {
+    report('name', 'error', 'name is required');
+  } else if (/[a-z]/i.test(item.name) && item.name === item.name.toUpperCase()) {
+    report('name', 'warning', 'name should not be in all caps');
+  }
+  checkLength(item, 'name', report);
+
+  if (!isNonEmptyString(item.description)) {
+    report('description', 'error', 'description is required');
+  } else if (HTML_TAG_PATTERN.test(item.description)) {
+    report('description', 'warning', 'description should be plain text without HTML');
+  }
+  checkLength(item, 'description', report);
+
+  for (const flag of ['enable_search', 'enable_checkout']) {
+    if (typeof item[flag] !== 'boolean') {
+      report(flag, 'error', `${flag} is required and must be true or false`);
+    }
+  }
+  if (item.enable_checkout === true && item.enable_search === false) {
+    report('enable_checkout', 'error', 'enable_checkout requires enable_search to be true');
+  }
+
+  if (item.gtin !== undefined) {
+    if (typeof item.gtin !== 'string' || !GTIN_PATTERN.test(item.gtin)) {
+      report('gtin', 'error', 'gtin must be 8 to 14 digits without dashes or spaces');
+    } else if (!hasValidGtinCheckDigit(item.gtin)) {
+      report('gtin', 'error', 'gtin check digit is wrong');
+    }
+  }
+  if (item.gtin === undefined && !isNonEmptyString(item.mpn)) {
+    report('mpn', 'error', 'mpn is required when gtin is missing');
+  }
+  checkLength(item, 'mpn', report);
+
+  // Books and other digital goods are exempt from brand
+  if (!isNonEmptyString(item.brand) && item.digital !== true) {
+    report('brand', 'warning', 'brand is recommended');
+  }
+  checkLength(item, 'brand', report);
+
+  if (item.condition !== undefined && !CONDITIONS.includes(item.condition as string)) {
+    report('condition', 'error', `condition must be one of: ${CONDITIONS.join(', ')}`);
+  }
+  if (!isNonEmptyString(item.category)) {
+    report('category', 'error', 'category is required');
+  }
+}
+
+/**
+ * Validates the image and media links of a feed item
+ * @param item - Feed item
+ * @param report - Issue reporter for the item
+ */
+function checkMedia(item: Record<string, unknown>, report: IssueReporter): void {
+  if (item.image_url === undefined) {
+    report('image_url', 'error', 'image_url is required');
+  } else if (!isHttpUrl(item.image_url)) {
+    report('image_url', 'error', 'image_url is not a valid http(s) URL');
+  } else if ((item.image_url as string).startsWith('http:')) {
+    report('image_url', 'warning', 'image_url should use HTTPS');
+  }
+
+  checkUrlList(item, 'additional_image_urls', report);
+  checkUrlList(item, 'video_urls', report);
+  checkUrlList(item, 'model_3d_urls', report);
+}
+
+/**
+ * Validates price, currency and the sale price window of a feed item
+ * @param item - Feed item
+ * @param report - Issue reporter for the item
+ */
+function checkPricing(item: Record<string, unknown>, report: IssueReporter): void {
+  const price = item.price;
+  const priceIsValid = Number.isInteger(price) && (price as number) > 0;
+  if (price === undefined) {
+    report('price', 'error', 'price is required');
+  } else if (!priceIsValid) {
+    report('price', 'error', 'price must be a positive integer in minor units');
+  }
+
+  if (!isNonEmptyString(item.currency)) {
+    report('currency', 'error', 'currency is required');
+  } else if (!CURRENCY_PATTERN.test(item.currency)) {
+    report('currency', 'error', 'currency must be an ISO 4217 code, such as "usd"');
+  }
+
+  const salePrice = item.sale_price;
+  if (salePrice === undefined) {
+    if (item.sale_price_effective_date !== undefined) {
+      report('sale_price_effective_date', 'warning', 'sale_price_effective_date has no sale_price');
+    }
+    return;
+  }
+  if (!Number.isInteger(salePrice) || (salePrice as number) < 0) {
+    report('sale_price', 'error', 'sale_price must be a non-negative integer in minor units');
+  } else if (priceIsValid && (salePrice as number) > (price as number)) {
+    report('sale_price', 'error', 'sale_price must not exceed price');
+  }
+
+  const window = item.sale_price_effective_date as { start?: unknown; end?: unknown } | undefined;
+  if (!window || typeof window !== 'object') {
+    report('sale_price_effective_date', 'error', 'sale_price_effective_date is required with sale_price');
+    return;
+  }
+  if (!isIsoDate(window.start) || !isIsoDate(window.end)) {
+    report('sale_price_effective_date', 'error', 'sale window start and end must be ISO 8601 dates');
+  } else if (Date.parse(window.start) >= Date.parse(window.end)) {
+    report('sale_price_effective_date', 'error', 'sale window start must precede its end');
+  } else if (Date.parse(window.end) <= Date.now()) {
+    report('sale_price_effective_date', 'warning', 'sale window has ended');
+  }
+}
+
+/**
+ * Validates availability and inventory of a feed item
+ * @param item - Feed item
+ * @param report - Issue reporter for the item
+ */
+function checkAvailability(item: Record<string, unknown>, report: IssueReporter): void {
+  if (!AVAILABILITIES.includes(item.availability as string)) {
+    report('availability', 'error', `availability must be one of: ${AVAILABILITIES.join(', ')}`);
+  }
+
+  if (item.availability === 'preorder' && item.availability_date === undefined) {
+    report('availability_date', 'error', 'availability_date is required for preorders');
+  }
+  if (item.availability_date !== undefined) {
+    if (!isIsoDate(item.availability_date)) {
+      report('availability_date', 'error', 'availability_date must be an ISO 8601 date');
+    } else if (Date.parse(item.availability_date) <= Date.now()) {
+      report('availability_date', 'warning', 'availability_date should be in the future');
+    }
+  }
+
+  const quantity = item.inventory_quantity;
+  if (quantity === undefined) {
+    // Digital goods do not run out
+    if (item.digital !== true) {
+      report('inventory_quantity', 'warning', 'inventory_quantity is recommended');
+    }
+  } else if (!Number.isInteger(quantity) || (quantity as number) < 0) {
+    report('inventory_quantity', 'error', 'inventory_quantity must be a non-negative integer');
+  }
+}
+
+/**
+ * Validates the variant fields of a feed item
+ * @param item - Feed item
+ * @param report - Issue reporter for the item
+ */
+function checkVariants(item: Record<string, unknown>, report: IssueReporter): void {
+  for (const field of ['item_group_id', 'item_group_title', 'color', 'size']) {
+    checkLength(item, field, report);
+  }
+
+  if (item.item_group_id !== undefined && item.color === undefined && item.size === undefined) {
+    report('item_group_id', 'warning', 'variants should set color or size to tell them apart');
+  }
+  if (item.size_system !== undefined && !COUNTRY_PATTERN.test(String(item.size_system))) {
+    report('size_system', 'error', 'size_system must be a 2-letter country code');
+  }
+  if (item.gender !== undefined && !GENDERS.includes(item.gender as string)) {
+    report('gender', 'error', `gender must be one of: ${GENDERS.join(', ')}`);
+  }
+}
+
+/**
+ * Validates shipping data of physical items and the download of digital items
+ * @param item - Feed item
+ * @param report - Issue reporter for the item
+ */
+function checkFulfillment(item: Record<string, unknown>, report: IssueReporter): void {
+  if (item.digital !== undefined && typeof item.digital !== 'boolean') {
+    report('digital', 'error', 'digital must be true or false');
+  }
+
+  if (item.digital === true) {
+    if (!isHttpUrl(item.digital_asset_url)) {
+      report('digital_asset_url', 'error', 'digital items need a valid digital_asset_url');
+    }
+    return;
+  }
+
+  const weight = item.weight_grams;
+  if (weight === undefined) {
+    report('weight_grams', 'warning', 'weight_grams is recommended for shipping rates');
+  } else if (typeof weight !== 'number' || !(weight > 0)) {
+    report('weight_grams', 'error', 'weight_grams must be a positive number');
+  }
+
+  const dimensions = item.dimensions_cm as Record<string, unknown> | undefined;
+  if (
+    dimensions !== undefined &&
+    !['length', 'width', 'height'].every(
+      (side) => typeof dimensions?.[side] === 'number' && (dimensions[side] as number) > 0
+    )
+  ) {
+    report('dimensions_cm', 'error', 'dimensions_cm needs positive length, width and height');
+  }
+}
+
+// ============================================================================
+// VALIDATION FUNCTIONS
+// ============================================================================
+
+/**
+ * Validates one feed item
+ * @param item - Feed item, possibly malformed
+ * @param index - Position of the item in the feed
+ * @returns Errors and warnings for the item
+ */
+export function validateProduct(item: unknown, index: number): FeedIssue[] {
+  const issues: FeedIssue[] = [];
+  const productId =
+    item && typeof item === 'object' && isNonEmptyString((item as Record<string, unknown>).id)
+      ? ((item as Record<string, unknown>).id as string)
+      : undefined;
+  const report: IssueReporter = (field, severity, message) => {
+    issues.push({ index, ...(productId && { product_id: productId }), field, severity, message });
+  };
+
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    report('$', 'error', 'item must be an object');
+    return issues;
+  }
+
+  const record = item as Record<string, unknown>;
+  checkBasicData(record, report);
+  checkMedia(record, report);
+  checkPricing(record, report);
+  checkAvailability(record, report);
+  checkVariants(record, report);
+  checkFulfillment(record, report);
+  return issues;
+}
+
+/**
+ * Validates every item of a feed, including that item IDs are unique
+ * @param items - Feed items, possibly malformed
+ * @returns Report with all issues in feed order
+ */
+export function validateProductFeed(items: unknown[]): FeedValidationReport {
+  const seenIds = new Set<string>();
+  const issues = items.flatMap((item, index) => {
+    const itemIssues = validateProduct(item, index);
+    const productId = (item as { id?: unknown } | null)?.id;
+    if (typeof productId === 'string') {
+      if (seenIds.has(productId)) {
+        itemIssues.push({
+          index,
+          product_id: productId,
+          field: 'id',
+          severity: 'error',
+          message: `id ${productId} is used by an earlier item`,
+        });
+      }
+      seenIds.add(productId);
+    }
+    return itemIssues;
+  });
+
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    products_checked: items.length,
+    invalid_products: new Set(errors.map((issue) => issue.index)).size,
+    error_count: errors.length,
+    warning_count: issues.length - errors.length,
+    issues,
+  };
+}
+
+/**
+ * Removes items with validation errors so they are never served
+ * @param products - Catalog products
+ * @returns Products without errors; skipped items are logged
+ */
+export function filterValidProducts(products: Product[]): Product[] {
+  const report = validateProductFeed(products);
+  if (report.valid) {
+    return products;
+  }
+
+  const invalidIndexes = new Set<number>();
+  for (const issue of report.issues) {
+    if (issue.severity === 'error') {
+      invalidIndexes.add(issue.index);
+      console.warn(
+        `Product feed item ${issue.product_id || `#${issue.index}`} skipped: ${issue.message}`
+      );
+    }
+  }
+  return products.filter((_, index) => !invalidIndexes.has(index));
+}
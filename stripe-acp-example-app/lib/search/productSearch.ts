@@ -0,0 +1,285 @@
+/**
+ * Product Search
+ *
+ * Responsibilities:
+ * - Rank products against a text query with the search index
+ * - Filter by category, brand, availability and current price range
+ * - Sort by relevance, price or name and paginate with opaque cursors
+ * - Count facet values for category, brand, availability and price buckets
+ */
+
+import {
+  FacetCount,
+  PriceRangeFacet,
+  Product,
+  ProductFeedResponse,
+  ProductSearchParams,
+  ProductSortOrder,
+} from '@/lib/types/product';
+import { createAcpError } from '@/lib/acp/errors';
+import { getUnitPrice } from '@/lib/checkout/pricing';
+import { scoreQuery, SearchIndex } from '@/lib/search/searchIndex';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Sort orders accepted by the search
+ */
+export const PRODUCT_SORT_ORDERS: ProductSortOrder[] = [
+  'relevance',
+  'price_asc',
+  'price_desc',
+  'name_asc',
+  'name_desc',
+];
+
+/**
+ * Lower bounds of the price facet buckets in minor units
+ */
+const PRICE_BUCKET_BOUNDS = [0, 5000, 10000, 15000, 20000];
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Product matching the query, with the values it is sorted and filtered by
+ */
+interface SearchEntry {
+  product: Product;
+  position: number;
+  score: number;
+  price: number;
+}
+
+/**
+ * Sort value of an entry followed by its catalog position, which breaks ties
+ */
+type SortKey = [number | string, number];
+
+/**
+ * Contents of a pagination cursor: the sort key of the last returned entry
+ */
+interface CursorPayload {
+  sort: ProductSortOrder;
+  key: SortKey;
+}
+
+/**
+ * Filters that have a facet
+ */
+type FacetFilter = 'category' | 'brand' | 'availability' | 'price';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Builds the sort key of an entry
+ * @param entry - Search entry
+ * @param sort - Sort order
+ * @returns Sort key
+ */
+function getSortKey(entry: SearchEntry, sort: ProductSortOrder): SortKey {
+  switch (sort) {
+    case 'price_asc':
+    case 'price_desc':
+      return [entry.price, entry.position];
+    case 'name_asc':
+    case 'name_desc':
+      return [entry.product.name.toLowerCase(), entry.position];
+    default:
+      return [entry.score, entry.position];
+  }
+}
+
+/**
+ * Compares two sort keys in the order results are returned
+ * @param a - First key
+ * @param b - Second key
+ * @param sort - Sort order
+ * @returns Negative if a comes first, positive if b comes first
+ */
+function compareSortKeys(a: SortKey, b: SortKey, sort: ProductSortOrder): number {
+  const descending = sort === 'relevance' || sort === 'price_desc' || sort === 'name_desc';
+  const primary =
+    typeof a[0] === 'string' && typeof b[0] === 'string'
+      ? a[0].localeCompare(b[0])
+      : (a[0] as number) - (b[0] as number);
+  if (primary !== 0) {
+    return descending ? -primary : primary;
+  }
+  return a[1] - b[1];
+}
+
+/**
+ * Encodes the position after an entry as an opaque cursor
+ * @param entry - Last entry of a page
+ * @param sort - Sort order of the search
+ * @returns Base64url cursor
+ */
+function encodeCursor(entry: SearchEntry, sort: ProductSortOrder): string {
+  const payload: CursorPayload = { sort, key: getSortKey(entry, sort) };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor returned by an earlier search
+ * @param cursor - Base64url cursor
+ * @param sort - Sort order of the current search
+ * @returns Sort key of the last entry already returned
+ * @throws AcpRequestError with code invalid if the cursor is malformed or was
+ * issued for another sort order
+ */
+function decodeCursor(cursor: string, sort: ProductSortOrder): SortKey {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw createAcpError('invalid', 'cursor is not valid', '$.cursor');
+  }
+  if (
+    !payload ||
+    !Array.isArray(payload.key) ||
+    payload.key.length !== 2 ||
+    typeof payload.key[1] !== 'number'
+  ) {
+    throw createAcpError('invalid', 'cursor is not valid', '$.cursor');
+  }
+  if (payload.sort !== sort) {
+    throw createAcpError('invalid', `cursor was issued for sort ${payload.sort}`, '$.cursor');
+  }
+  return payload.key;
+}
+
+/**
+ * Checks whether a value matches a multi-value filter, ignoring case
+ * @param value - Product value
+ * @param allowed - Filter values; an empty or absent filter matches anything
+ * @returns True if the value passes the filter
+ */
+function matchesAny(value: string | undefined, allowed: string[] | undefined): boolean {
+  if (!allowed || allowed.length === 0) {
+    return true;
+  }
+  return value !== undefined && allowed.some((option) => option.toLowerCase() === value.toLowerCase());
+}
+
+/**
+ * Applies the search filters to an entry
+ * @param entry - Search entry
+ * @param params - Search parameters
+ * @param except - Filter to ignore, used for that filter's own facet counts
+ * @returns True if the entry passes every other filter
+ */
+function matchesFilters(entry: SearchEntry, params: ProductSearchParams, except?: FacetFilter): boolean {
+  const { product } = entry;
+  return (
+    (except === 'category' || matchesAny(product.category, params.category)) &&
+    (except === 'brand' || matchesAny(product.brand, params.brand)) &&
+    (except === 'availability' || matchesAny(product.availability, params.availability)) &&
+    (except === 'price' ||
+      ((params.min_price === undefined || entry.price >= params.min_price) &&
+        (params.max_price === undefined || entry.price <= params.max_price)))
+  );
+}
+
+/**
+ * Counts entries per facet value
+ * @param entries - Entries to count
+ * @param getValue - Facet value of an entry
+ * @returns Counts, most common first
+ */
+function countValues(
+  entries: SearchEntry[],
+  getValue: (entry: SearchEntry) => string | undefined
+): FacetCount[] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    const value = getValue(entry);
+    if (value) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Counts entries per price bucket
+ * @param entries - Entries to count
+ * @returns Counts for every bucket, including empty ones
+ */
+function countPriceRanges(entries: SearchEntry[]): PriceRangeFacet[] {
+  return PRICE_BUCKET_BOUNDS.map((min, index) => {
+    const max = PRICE_BUCKET_BOUNDS[index + 1];
+    return {
+      min,
+      ...(max !== undefined && { max }),
+      count: entries.filter((entry) => entry.price >= min && (max === undefined || entry.price < max))
+        .length,
+    };
+  });
+}
+
+// ============================================================================
+// SEARCH FUNCTIONS
+// ============================================================================
+
+/**
+ * Searches indexed products with the enable_search flag
+ * @param index - Search index of the catalog
+ * @param params - Query, filters, sort order and page
+ * @returns One page of products with their relevance scores, the number of
+ * matches, the cursor of the next page and facet counts
+ * @throws AcpRequestError with code invalid for a bad cursor
+ */
+export function searchProducts(index: SearchIndex, params: ProductSearchParams): ProductFeedResponse {
+  const scores = params.query ? scoreQuery(index, params.query) : null;
+
+  const candidates: SearchEntry[] = index.products
+    .map((product, position) => ({
+      product,
+      position,
+      score: scores?.get(position) || 0,
+      price: getUnitPrice(product),
+    }))
+    .filter((entry) => entry.product.enable_search && (!scores || scores.has(entry.position)));
+
+  const matches = candidates
+    .filter((entry) => matchesFilters(entry, params))
+    .sort((a, b) => compareSortKeys(getSortKey(a, params.sort), getSortKey(b, params.sort), params.sort));
+
+  const afterKey = params.cursor ? decodeCursor(params.cursor, params.sort) : undefined;
+  const start = afterKey
+    ? matches.findIndex((entry) => compareSortKeys(getSortKey(entry, params.sort), afterKey, params.sort) > 0)
+    : 0;
+  const page = start === -1 ? [] : matches.slice(start, start + params.limit);
+  const hasMore = start !== -1 && start + params.limit < matches.length;
+
+  return {
+    products: page.map((entry) =>
+      scores ? { ...entry.product, score: Math.round(entry.score * 1000) / 1000 } : entry.product
+    ),
+    total: matches.length,
+    next_cursor: hasMore ? encodeCursor(page[page.length - 1], params.sort) : null,
+    facets: {
+      category: countValues(
+        candidates.filter((entry) => matchesFilters(entry, params, 'category')),
+        (entry) => entry.product.category
+      ),
+      brand: countValues(
+        candidates.filter((entry) => matchesFilters(entry, params, 'brand')),
+        (entry) => entry.product.brand
+      ),
+      availability: countValues(
+        candidates.filter((entry) => matchesFilters(entry, params, 'availability')),
+        (entry) => entry.product.availability
+      ),
+      price: countPriceRanges(candidates.filter((entry) => matchesFilters(entry, params, 'price'))),
+    },
+  };
+}
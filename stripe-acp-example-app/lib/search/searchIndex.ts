@@ -0,0 +1,419 @@
+/**
+ * Product Search Index
+ *
+ * Responsibilities:
+ * - Build an in-process inverted index over the searchable product fields
+ * - Tokenize and stem text the same way for products and queries
+ * - Expand query terms with synonyms from data/search_synonyms.json and with
+ *   close spellings found in the index
+ * - Rank matching products with field-weighted BM25
+ * - Rebuild the index when the catalog that checkout and pricing also use
+ *   changes on disk
+ */
+
+import { Product } from '@/lib/types/product';
+import { filterValidProducts } from '@/lib/feed/feedValidation';
+import { getCatalogProducts } from '@/lib/catalog/productCatalog';
+import synonymsData from '@/data/search_synonyms.json';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * How much a term found in each field counts towards the score
+ */
+const FIELD_WEIGHTS = {
+  name: 3,
+  brand: 2,
+  category: 2,
+  color: 1,
+  description: 1,
+};
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+/**
+ * BM25 term frequency saturation and length normalization
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Share of the score kept by matches through a misspelling or a synonym
+ */
+const FUZZY_MATCH_WEIGHT = 0.7;
+const SYNONYM_MATCH_WEIGHT = 0.5;
+
+const STOPWORDS = new Set(['a', 'an', 'and', 'by', 'for', 'in', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+/**
+ * Term counts and lengths of one product's fields
+ */
+interface IndexedDocument {
+  terms: Record<SearchField, Map<string, number>>;
+  lengths: Record<SearchField, number>;
+}
+
+/**
+ * Index term a query word matches, with the share of the score it keeps
+ */
+interface TermAlternative {
+  term: string;
+  weight: number;
+}
+
+/**
+ * Inverted index over a catalog. Documents share the positions of products.
+ */
+export interface SearchIndex {
+  products: Product[];
+  documents: IndexedDocument[];
+  postings: Map<string, Set<number>>;
+  averageLengths: Record<SearchField, number>;
+  synonyms: Map<string, string[]>;
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+/**
+ * Index of the catalog, with the catalog products it was built from
+ */
+let cachedIndex: { catalog: Product[]; index: SearchIndex } | undefined;
+
+// ============================================================================
+// TEXT ANALYSIS FUNCTIONS
+// ============================================================================
+
+/**
+ * Splits text into lower-case words without accents or stopwords
+ * @param text - Text to split
+ * @returns Words made of letters and digits
+ */
+function tokenize(text: string): string[] {
+  const words = text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu);
+  return (words || []).filter((word) => !STOPWORDS.has(word));
+}
+
+/**
+ * Reduces an English word to its stem by removing plural and -ing / -ed
+ * endings, so "running shoes" and "run shoe" share terms
+ * @param word - Lower-case word
+ * @returns Stem
+ */
+function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  let stemmed = word;
+  if (stemmed.endsWith('ies') && stemmed.length > 4) {
+    stemmed = `${stemmed.slice(0, -3)}y`;
+  } else if (/(ss|x|z|ch|sh)es$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -2);
+  } else if (stemmed.endsWith('s') && !/(ss|us|is)$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  const suffix = stemmed.match(/(ing|ed)$/)?.[0];
+  if (suffix) {
+    const base = stemmed.slice(0, -suffix.length);
+    if (base.length >= 3 && /[aeiouy]/.test(base)) {
+      // Undo consonant doubling: runn -> run
+      stemmed = /([^aeiouslz])\1$/.test(base) ? base.slice(0, -1) : base;
+    }
+  }
+  return stemmed;
+}
+
+/**
+ * Computes the edit distance between two terms, counting a swap of adjacent
+ * letters as one edit
+ * @param a - First term
+ * @param b - Second term
+ * @param max - Distance above which the exact value does not matter
+ * @returns Edit distance, or max + 1 when it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      nextRow[j] = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        nextRow[j] = Math.min(nextRow[j], previousRow[j - 2] + 1);
+      }
+    }
+    if (Math.min(...nextRow) > max) {
+      return max + 1;
+    }
+    previousRow = row;
+    row = nextRow;
+  }
+  return row[b.length];
+}
+
+/**
+ * Number of typos tolerated in a query term of a given length
+ * @param term - Query term
+ * @returns Maximum edit distance
+ */
+function maxEditDistance(term: string): number {
+  if (term.length <= 3 || /\d/.test(term)) {
+    return 0;
+  }
+  return term.length < 8 ? 1 : 2;
+}
+
+// ============================================================================
+// INDEX FUNCTIONS
+// ============================================================================
+
+/**
+ * Indexes the searchable fields of a product. The name also gets terms for
+ * adjacent words written together, so "airmax" finds "Air Max".
+ * @param product - Product to index
+ * @returns Term counts and lengths per field
+ */
+function indexDocument(product: Product): IndexedDocument {
+  const document = {
+    terms: {} as Record<SearchField, Map<string, number>>,
+    lengths: {} as Record<SearchField, number>,
+  };
+
+  for (const field of SEARCH_FIELDS) {
+    const words = tokenize(product[field] || '');
+    const terms = words.map(stem);
+    if (field === 'name') {
+      for (let i = 1; i < words.length; i++) {
+        terms.push(stem(words[i - 1] + words[i]));
+      }
+    }
+
+    const counts = new Map<string, number>();
+    for (const term of terms) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    document.terms[field] = counts;
+    document.lengths[field] = words.length;
+  }
+  return document;
+}
+
+/**
+ * Maps every stemmed term of a synonym group to the other terms of the group
+ * @param groups - Groups of interchangeable words
+ * @returns Synonyms by term
+ */
+function buildSynonymMap(groups: string[][]): Map<string, string[]> {
+  const synonyms = new Map<string, string[]>();
+  for (const group of groups) {
+    const terms = Array.from(new Set(group.flatMap((phrase) => tokenize(phrase).map(stem))));
+    for (const term of terms) {
+      const others = terms.filter((other) => other !== term);
+      synonyms.set(term, Array.from(new Set([...(synonyms.get(term) || []), ...others])));
+    }
+  }
+  return synonyms;
+}
+
+/**
+ * Builds the search index of a catalog
+ * @param products - Catalog products
+ * @returns Search index
+ */
+export function buildSearchIndex(products: Product[]): SearchIndex {
+  const documents = products.map(indexDocument);
+
+  const postings = new Map<string, Set<number>>();
+  documents.forEach((document, position) => {
+    for (const field of SEARCH_FIELDS) {
+      for (const term of document.terms[field].keys()) {
+        const positions = postings.get(term) || new Set<number>();
+        positions.add(position);
+        postings.set(term, positions);
+      }
+    }
+  });
+
+  const averageLengths = {} as Record<SearchField, number>;
+  for (const field of SEARCH_FIELDS) {
+    const totalLength = documents.reduce((sum, document) => sum + document.lengths[field], 0);
+    averageLengths[field] = documents.length > 0 ? totalLength / documents.length : 0;
+  }
+
+  return {
+    products,
+    documents,
+    postings,
+    averageLengths,
+    synonyms: buildSynonymMap(synonymsData.synonyms),
+  };
+}
+
+/**
+ * Returns the index of the current catalog, rebuilding it when the catalog
+ * has changed since the last call. Items that fail feed validation are left
+ * out.
+ * @returns Search index of the current catalog
+ * @throws Error if the catalog has never been read successfully
+ */
+export function getSearchIndex(): SearchIndex {
+  const catalog = getCatalogProducts();
+  if (cachedIndex?.catalog !== catalog) {
+    cachedIndex = { catalog, index: buildSearchIndex(filterValidProducts(catalog)) };
+  }
+  return cachedIndex.index;
+}
+
+// ============================================================================
+// QUERY FUNCTIONS
+// ============================================================================
+
+/**
+ * Finds the index terms a query term matches: itself, or its closest
+ * spellings when it is unknown, plus their synonyms
+ * @param index - Search index
+ * @param term - Stemmed query term
+ * @returns Matching index terms with the share of the score each keeps
+ */
+function expandTerm(index: SearchIndex, term: string): TermAlternative[] {
+  let bases: TermAlternative[] = [{ term, weight: 1 }];
+
+  if (!index.postings.has(term) && !index.synonyms.has(term)) {
+    const maxDistance = maxEditDistance(term);
+    let bestDistance = maxDistance + 1;
+    bases = [];
+    for (const candidate of new Set([...index.postings.keys(), ...index.synonyms.keys()])) {
+      const distance = editDistance(term, candidate, maxDistance);
+      if (distance > maxDistance) {
+        continue;
+      }
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bases = [];
+      }
+      if (distance === bestDistance) {
+        bases.push({ term: candidate, weight: FUZZY_MATCH_WEIGHT });
+      }
+    }
+  }
+
+  const alternatives = new Map<string, number>();
+  const add = (candidate: string, weight: number) => {
+    if (index.postings.has(candidate) && weight > (alternatives.get(candidate) || 0)) {
+      alternatives.set(candidate, weight);
+    }
+  };
+  for (const base of bases) {
+    add(base.term, base.weight);
+    for (const synonym of index.synonyms.get(base.term) || []) {
+      add(synonym, base.weight * SYNONYM_MATCH_WEIGHT);
+    }
+  }
+  return Array.from(alternatives.entries()).map(([candidate, weight]) => ({ term: candidate, weight }));
+}
+
+/**
+ * Splits a query into stemmed terms. Adjacent words are joined when only the
+ * joined form is indexed, so "ultra boost" finds "Ultraboost".
+ * @param index - Search index
+ * @param query - Query text
+ * @returns Query terms
+ */
+function parseQuery(index: SearchIndex, query: string): string[] {
+  const words = tokenize(query);
+  const terms: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const term = stem(words[i]);
+    const next = words[i + 1];
+    if (next !== undefined) {
+      const joined = stem(words[i] + next);
+      if (index.postings.has(joined) && !(index.postings.has(term) && index.postings.has(stem(next)))) {
+        terms.push(joined);
+        i++;
+        continue;
+      }
+    }
+    terms.push(term);
+  }
+  return terms;
+}
+
+/**
+ * Scores one index term in a document with field-weighted BM25
+ * @param index - Search index
+ * @param position - Document position
+ * @param term - Index term
+ * @returns BM25 score, 0 if the document lacks the term
+ */
+function scoreTerm(index: SearchIndex, position: number, term: string): number {
+  const document = index.documents[position];
+  let frequency = 0;
+  for (const field of SEARCH_FIELDS) {
+    const count = document.terms[field].get(term);
+    if (count) {
+      const lengthRatio = index.averageLengths[field] > 0 ? document.lengths[field] / index.averageLengths[field] : 1;
+      frequency += (FIELD_WEIGHTS[field] * count) / (1 - BM25_B + BM25_B * lengthRatio);
+    }
+  }
+  if (frequency === 0) {
+    return 0;
+  }
+
+  const documentCount = index.documents.length;
+  const documentFrequency = index.postings.get(term)?.size || 0;
+  const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  return (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1);
+}
+
+/**
+ * Ranks the products matching a query. A product matches when every query
+ * term, or a misspelling or synonym of it, appears in one of its fields.
+ * @param index - Search index
+ * @param query - Query text
+ * @returns Relevance scores keyed by product position, or null when the query
+ * has no searchable terms
+ */
+export function scoreQuery(index: SearchIndex, query: string): Map<number, number> | null {
+  const terms = parseQuery(index, query);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const alternativesByTerm = terms.map((term) => expandTerm(index, term));
+  let candidates: Set<number> | undefined;
+  for (const alternatives of alternativesByTerm) {
+    const matching = new Set(alternatives.flatMap(({ term }) => Array.from(index.postings.get(term) || [])));
+    candidates = candidates ? new Set(Array.from(candidates).filter((position) => matching.has(position))) : matching;
+  }
+
+  const scores = new Map<number, number>();
+  for (const position of candidates || []) {
+    const score = alternativesByTerm.reduce(
+      (sum, alternatives) =>
+        sum + Math.max(...alternatives.map(({ term, weight }) => weight * scoreTerm(index, position, term))),
+      0
+    );
+    scores.set(position, score);
+  }
+  return scores;
+}
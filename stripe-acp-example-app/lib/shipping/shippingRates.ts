@@ -0,0 +1,185 @@
+/**
+ * Shipping Rate Engine
+ *
+ * Responsibilities:
+ * - Load shipping zones and rates from data/shipping_zones.json
+ * - Match a fulfillment address to a zone by country and region
+ * - Price shipping options from the billable weight of the cart
+ * - Apply free-shipping thresholds and estimate delivery windows
+ */
+
+import { CartItem, FulfillmentAddress, ShippingFulfillmentOption } from '@/lib/types/checkout';
+import { getCatalogProducts } from '@/lib/catalog/productCatalog';
+import shippingZonesData from '@/data/shipping_zones.json';
+import { getUnitPrice } from '@/lib/checkout/pricing';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const WILDCARD_COUNTRY = '*';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Country, optionally narrowed to a list of regions (state codes)
+ */
+interface ShippingDestination {
+  country: string;
+  regions?: string[];
+}
+
+/**
+ * Shipping rate offered in a zone. Amounts are in minor units.
+ */
+interface ShippingRate {
+  id: string;
+  name: string;
+  carrier?: string;
+  base_amount: number;
+  per_kg_amount: number;
+  min_days: number;
+  max_days: number;
+  free_shipping_threshold?: number;
+}
+
+/**
+ * Group of destinations sharing the same rates
+ */
+interface ShippingZone {
+  id: string;
+  name: string;
+  destinations: ShippingDestination[];
+  rates: ShippingRate[];
+}
+
+/**
+ * Shape of data/shipping_zones.json
+ */
+interface ShippingZoneTable {
+  dimensional_weight_divisor: number;
+  zones: ShippingZone[];
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Finds the first zone that ships to an address. Zones are checked in file
+ * order, so region-specific zones must be listed before whole countries.
+ * @param address - Fulfillment address
+ * @returns Matching zone, or undefined if nothing ships there
+ */
+function findShippingZone(address: FulfillmentAddress): ShippingZone | undefined {
+  const table = shippingZonesData as ShippingZoneTable;
+  const country = (address.country || '').trim().toUpperCase();
+  const region = (address.state || '').trim().toUpperCase();
+
+  return table.zones.find((zone) =>
+    zone.destinations.some(
+      (destination) =>
+        (destination.country === WILDCARD_COUNTRY || destination.country === country) &&
+        (!destination.regions || destination.regions.includes(region))
+    )
+  );
+}
+
+/**
+ * Computes the billable weight of a cart: the greater of actual and
+ * dimensional weight for each product
+ * @param items - Cart items
+ * @returns Billable weight in grams
+ */
+function getBillableWeightGrams(items: CartItem[]): number {
+  const table = shippingZonesData as ShippingZoneTable;
+  const products = getCatalogProducts();
+
+  return items.reduce((sum, item) => {
+    const product = products.find((p) => p.id === item.id);
+    const actualGrams = product?.weight_grams || 0;
+    const dimensions = product?.dimensions_cm;
+    const dimensionalGrams = dimensions
+      ? ((dimensions.length * dimensions.width * dimensions.height) /
+          table.dimensional_weight_divisor) *
+        1000
+      : 0;
+    return sum + Math.max(actualGrams, dimensionalGrams) * item.quantity;
+  }, 0);
+}
+
+/**
+ * Computes the value of the goods in a cart at current catalog prices
+ * @param items - Cart items
+ * @returns Goods value in minor units
+ */
+function getGoodsAmount(items: CartItem[]): number {
+  const products = getCatalogProducts();
+  return items.reduce((sum, item) => {
+    const product = products.find((p) => p.id === item.id);
+    return sum + (product ? getUnitPrice(product) : 0) * item.quantity;
+  }, 0);
+}
+
+/**
+ * Formats a delivery window for display
+ * @param rate - Shipping rate
+ * @returns Description such as "5-7 days"
+ */
+function describeDeliveryWindow(rate: ShippingRate): string {
+  if (rate.min_days === rate.max_days) {
+    return rate.min_days === 1 ? 'Next day' : `${rate.min_days} days`;
+  }
+  return `${rate.min_days}-${rate.max_days} days`;
+}
+
+// ============================================================================
+// SHIPPING FUNCTIONS
+// ============================================================================
+
+/**
+ * Builds the shipping options available for an address and cart
+ * @param address - Fulfillment address; no options are offered without one
+ * @param items - Cart items to ship
+ * @param now - Time the delivery window is estimated from
+ * @returns Priced shipping options with delivery windows. Option IDs are
+ * scoped by zone (e.g. us_remote:standard), so a selection made in one zone is
+ * not kept, and silently repriced, after the address moves to another.
+ */
+export function buildShippingOptions(
+  address: FulfillmentAddress | undefined,
+  items: CartItem[],
+  now: Date = new Date()
+): ShippingFulfillmentOption[] {
+  if (!address) {
+    return [];
+  }
+
+  const zone = findShippingZone(address);
+  if (!zone) {
+    return [];
+  }
+
+  const billableKg = Math.ceil(getBillableWeightGrams(items) / 1000);
+  const goodsAmount = getGoodsAmount(items);
+
+  return zone.rates.map((rate) => {
+    const isFree =
+      rate.free_shipping_threshold !== undefined && goodsAmount >= rate.free_shipping_threshold;
+    return {
+      type: 'shipping',
+      id: `${zone.id}:${rate.id}`,
+      name: rate.name,
+      amount: isFree ? 0 : rate.base_amount + rate.per_kg_amount * billableKg,
+      description: isFree
+        ? `${describeDeliveryWindow(rate)}, free shipping applied`
+        : describeDeliveryWindow(rate),
+      carrier: rate.carrier,
+      earliest_delivery_time: new Date(now.getTime() + rate.min_days * DAY_MS).toISOString(),
+      latest_delivery_time: new Date(now.getTime() + rate.max_days * DAY_MS).toISOString(),
+    };
+  });
+}
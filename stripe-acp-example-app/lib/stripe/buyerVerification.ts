@@ -0,0 +1,160 @@
+/**
+ * Buyer Email Verification
+ *
+ * Responsibilities:
+ * - Send a one-time code to the buyer email of a checkout session
+ * - Check codes, with an expiry and a limit on attempts
+ * - Tell whether the buyer of a checkout proved they own its email, which is
+ *   required before their saved cards or Stripe Customer are used
+ */
+
+import crypto from 'crypto';
+import { normalizeEmail } from '@/lib/stripe/customers';
+import {
+  readVerificationsFromFile,
+  writeVerificationsToFile,
+} from '@/lib/stripe/buyerVerificationStorage';
+import { safeEqual } from '@/lib/acp/signature';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+const RESEND_INTERVAL_MS = 30 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Outcome of checking a verification code
+ */
+export type VerificationResult = 'verified' | 'invalid_code' | 'expired';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Hashes a verification code for storage
+ * @param code - Six-digit code
+ * @returns Hex SHA-256 digest
+ */
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+/**
+ * Sends a verification code to the buyer. Codes go to the email relay at
+ * BUYER_VERIFICATION_EMAIL_URL; outside production, setting
+ * BUYER_VERIFICATION_LOG_CODES=true writes them to the server log instead.
+ * @param checkoutId - Checkout session ID, logged in place of the email
+ * @param email - Buyer email
+ * @param code - Six-digit code
+ * @throws Error if no relay is configured and logging codes is not enabled,
+ * or the relay fails
+ */
+async function deliverCode(checkoutId: string, email: string, code: string): Promise<void> {
+  const url = process.env.BUYER_VERIFICATION_EMAIL_URL;
+  if (!url) {
+    const logCodes =
+      process.env.NODE_ENV !== 'production' && process.env.BUYER_VERIFICATION_LOG_CODES === 'true';
+    if (!logCodes) {
+      throw new Error('BUYER_VERIFICATION_EMAIL_URL environment variable is required to verify buyers');
+    }
+    console.info(`Verification code for checkout ${checkoutId}: ${code}`);
+    return;
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      to: email,
+      subject: 'Your verification code',
+      text: `Your code to use your saved payment methods is ${code}. It expires in 10 minutes.`,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Email relay responded with ${response.status}`);
+  }
+}
+
+// ============================================================================
+// VERIFICATION FUNCTIONS
+// ============================================================================
+
+/**
+ * Sends a new code to the buyer email of a checkout, replacing any earlier one
+ * @param checkoutId - Checkout session ID
+ * @param email - Buyer email on the checkout
+ * @returns False if a code was sent moments ago, so none was sent now
+ * @throws Error if the code cannot be sent
+ */
+export async function sendVerificationCode(checkoutId: string, email: string): Promise<boolean> {
+  const verifications = readVerificationsFromFile();
+  const previous = verifications.get(checkoutId);
+  if (previous && Date.parse(previous.expires_at) - CODE_TTL_MS + RESEND_INTERVAL_MS > Date.now()) {
+    return false;
+  }
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+  verifications.set(checkoutId, {
+    email: normalizeEmail(email),
+    code_hash: hashCode(code),
+    expires_at: new Date(Date.now() + CODE_TTL_MS).toISOString(),
+    attempts: 0,
+  });
+  writeVerificationsToFile(verifications);
+
+  await deliverCode(checkoutId, email, code);
+  return true;
+}
+
+/**
+ * Checks a code entered by the buyer
+ * @param checkoutId - Checkout session ID
+ * @param email - Buyer email on the checkout
+ * @param code - Code entered by the buyer
+ * @returns verified, invalid_code, or expired when the code timed out, was
+ * tried too often or was sent to another email
+ */
+export function checkVerificationCode(
+  checkoutId: string,
+  email: string,
+  code: string
+): VerificationResult {
+  const verifications = readVerificationsFromFile();
+  const verification = verifications.get(checkoutId);
+  if (
+    !verification ||
+    verification.email !== normalizeEmail(email) ||
+    verification.attempts >= MAX_ATTEMPTS ||
+    Date.parse(verification.expires_at) < Date.now()
+  ) {
+    return 'expired';
+  }
+
+  if (!safeEqual(hashCode(code.trim()), verification.code_hash)) {
+    verification.attempts += 1;
+    writeVerificationsToFile(verifications);
+    return 'invalid_code';
+  }
+
+  verification.verified_at = new Date().toISOString();
+  writeVerificationsToFile(verifications);
+  return 'verified';
+}
+
+/**
+ * Tells whether the buyer of a checkout has verified its current email
+ * @param checkoutId - Checkout session ID
+ * @param email - Buyer email on the checkout
+ * @returns True if a code sent to this email was entered for the checkout
+ */
+export function isBuyerVerified(checkoutId: string, email: string): boolean {
+  const verification = readVerificationsFromFile().get(checkoutId);
+  return Boolean(verification?.verified_at) && verification?.email === normalizeEmail(email);
+}
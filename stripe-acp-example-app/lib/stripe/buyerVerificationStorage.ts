@@ -0,0 +1,72 @@
+/**
+ * Buyer Verification Storage Utilities
+ *
+ * Responsibilities:
+ * - Read and write the one-time codes and verified emails of checkout buyers
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const VERIFICATIONS_FILE_PATH = path.join(
+  process.cwd(),
+  'conversations',
+  'buyer_verifications.json'
+);
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Email verification of the buyer of a checkout session. Only a hash of the
+ * code is kept.
+ */
+export interface BuyerVerification {
+  email: string;
+  code_hash: string;
+  expires_at: string;
+  attempts: number;
+  verified_at?: string;
+}
+
+// ============================================================================
+// STORAGE FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads buyer verifications from file storage
+ * @returns Map of verifications keyed by checkout session ID
+ */
+export function readVerificationsFromFile(): Map<string, BuyerVerification> {
+  try {
+    if (fs.existsSync(VERIFICATIONS_FILE_PATH)) {
+      const fileContent = fs.readFileSync(VERIFICATIONS_FILE_PATH, 'utf-8');
+      if (fileContent) {
+        const data = JSON.parse(fileContent);
+        return new Map(data);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading buyer verifications file:', error);
+  }
+  return new Map<string, BuyerVerification>();
+}
+
+/**
+ * Writes buyer verifications to file storage
+ * @param verifications - Map of verifications to persist
+ */
+export function writeVerificationsToFile(verifications: Map<string, BuyerVerification>): void {
+  try {
+    fs.mkdirSync(path.dirname(VERIFICATIONS_FILE_PATH), { recursive: true });
+    const data = JSON.stringify(Array.from(verifications.entries()), null, 2);
+    fs.writeFileSync(VERIFICATIONS_FILE_PATH, data, 'utf-8');
+  } catch (error) {
+    console.error('Error writing buyer verifications file:', error);
+  }
+}
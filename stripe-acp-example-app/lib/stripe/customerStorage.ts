@@ -0,0 +1,52 @@
+/**
+ * Stripe Customer Storage Utilities
+ *
+ * Responsibilities:
+ * - Read and write the Stripe Customer created for each buyer email
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CUSTOMERS_FILE_PATH = path.join(process.cwd(), 'conversations', 'customers.json');
+
+// ============================================================================
+// STORAGE FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads Stripe Customer IDs from file storage
+ * @returns Map of Customer IDs keyed by normalized buyer email
+ */
+export function readCustomersFromFile(): Map<string, string> {
+  try {
+    if (fs.existsSync(CUSTOMERS_FILE_PATH)) {
+      const fileContent = fs.readFileSync(CUSTOMERS_FILE_PATH, 'utf-8');
+      if (fileContent) {
+        const data = JSON.parse(fileContent);
+        return new Map(data);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading customers file:', error);
+  }
+  return new Map<string, string>();
+}
+
+/**
+ * Writes Stripe Customer IDs to file storage
+ * @param customers - Map of Customer IDs to persist
+ */
+export function writeCustomersToFile(customers: Map<string, string>): void {
+  try {
+    fs.mkdirSync(path.dirname(CUSTOMERS_FILE_PATH), { recursive: true });
+    const data = JSON.stringify(Array.from(customers.entries()), null, 2);
+    fs.writeFileSync(CUSTOMERS_FILE_PATH, data, 'utf-8');
+  } catch (error) {
+    console.error('Error writing customers file:', error);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Stripe Customers
+ *
+ * Responsibilities:
+ * - Identify returning buyers by email and map them to a Stripe Customer
+ * - List the cards a buyer saved in earlier purchases
+ */
+
+import crypto from 'crypto';
+import Stripe from 'stripe';
+import { Buyer } from '@/lib/types/checkout';
+import { SavedPaymentMethod } from '@/lib/types/payment';
+import { readCustomersFromFile, writeCustomersToFile } from '@/lib/stripe/customerStorage';
+import { stripe } from '@/lib/stripe/client';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalizes an email so the same buyer always maps to one Customer
+ * @param email - Buyer email
+ * @returns Trimmed, lower-cased email
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// ============================================================================
+// CUSTOMER FUNCTIONS
+// ============================================================================
+
+/**
+ * Finds the Stripe Customer of a returning buyer
+ * @param email - Buyer email
+ * @returns Customer ID, or undefined if the buyer has not paid before
+ */
+export function findCustomerId(email: string): string | undefined {
+  return readCustomersFromFile().get(normalizeEmail(email));
+}
+
+/**
+ * Finds the Stripe Customer for a buyer, creating one on their first payment
+ * @param buyer - Buyer with an email
+ * @returns Customer ID
+ * @throws Error if the Customer cannot be created
+ */
+export async function getOrCreateCustomer(buyer: Buyer & { email: string }): Promise<string> {
+  const email = normalizeEmail(buyer.email);
+  const existingCustomerId = findCustomerId(email);
+  if (existingCustomerId) {
+    return existingCustomerId;
+  }
+
+  const name = [buyer.first_name, buyer.last_name].filter(Boolean).join(' ');
+  const params: Stripe.CustomerCreateParams = {
+    email,
+    ...(name && { name }),
+  };
+  // The idempotency key makes concurrent first payments share one Customer. It
+  // covers every parameter, since Stripe rejects a reused key with new ones.
+  const paramsHash = crypto.createHash('sha256').update(JSON.stringify(params)).digest('hex');
+  const customer = await stripe.customers.create(params, {
+    idempotencyKey: `customer_${paramsHash}`,
+  });
+
+  const customers = readCustomersFromFile();
+  customers.set(email, customer.id);
+  writeCustomersToFile(customers);
+  return customer.id;
+}
+
+/**
+ * Lists the cards saved on a Stripe Customer
+ * @param customerId - Customer ID
+ * @returns Saved cards, most recently added first
+ * @throws Error if the Stripe request fails
+ */
+export async function listSavedCards(customerId: string): Promise<SavedPaymentMethod[]> {
+  const paymentMethods = await stripe.customers.listPaymentMethods(customerId, {
+    type: 'card',
+    limit: 10,
+  });
+
+  return paymentMethods.data.flatMap(({ id, card }) =>
+    card
+      ? [{ id, brand: card.brand, last4: card.last4, exp_month: card.exp_month, exp_year: card.exp_year }]
+      : []
+  );
+}
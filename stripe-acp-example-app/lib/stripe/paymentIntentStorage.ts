@@ -0,0 +1,57 @@
+/**
+ * Checkout PaymentIntent Storage Utilities
+ *
+ * Responsibilities:
+ * - Read and write the PaymentIntent created for each checkout session
+ * - Let the payment form reuse one PaymentIntent per checkout
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PAYMENT_INTENTS_FILE_PATH = path.join(
+  process.cwd(),
+  'conversations',
+  'payment_intents.json'
+);
+
+// ============================================================================
+// STORAGE FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads checkout PaymentIntent IDs from file storage
+ * @returns Map of PaymentIntent IDs keyed by checkout session ID
+ */
+export function readPaymentIntentsFromFile(): Map<string, string> {
+  try {
+    if (fs.existsSync(PAYMENT_INTENTS_FILE_PATH)) {
+      const fileContent = fs.readFileSync(PAYMENT_INTENTS_FILE_PATH, 'utf-8');
+      if (fileContent) {
+        const data = JSON.parse(fileContent);
+        return new Map(data);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading payment intents file:', error);
+  }
+  return new Map<string, string>();
+}
+
+/**
+ * Writes checkout PaymentIntent IDs to file storage
+ * @param paymentIntents - Map of PaymentIntent IDs to persist
+ */
+export function writePaymentIntentsToFile(paymentIntents: Map<string, string>): void {
+  try {
+    fs.mkdirSync(path.dirname(PAYMENT_INTENTS_FILE_PATH), { recursive: true });
+    const data = JSON.stringify(Array.from(paymentIntents.entries()), null, 2);
+    fs.writeFileSync(PAYMENT_INTENTS_FILE_PATH, data, 'utf-8');
+  } catch (error) {
+    console.error('Error writing payment intents file:', error);
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * Checkout Payments
+ *
+ * Responsibilities:
+ * - Charge Shared Payment Tokens (spt_...) server-side for the checkout total
+ * - Charge cards released from the delegated payment vault
+ * - Verify PaymentIntents confirmed client-side against the checkout binding and total
+ * - Map PaymentIntent statuses and Stripe decline codes to ACP errors
+ * - Cancel the pending PaymentIntent of a checkout that is being canceled
+ * - Hold a checkout whose payment is still processing, so it is not paid twice
+ */
+
+import Stripe from 'stripe';
+import { stripe } from '@/lib/stripe/client';
+import { VaultedCredential } from '@/lib/vault/tokenVault';
+import { readPaymentIntentsFromFile } from '@/lib/stripe/paymentIntentStorage';
+import { readSessionsFromFile, writeSessionsToFile } from '@/lib/checkout/sessionStorage';
+import { applyCheckoutEvent, canApplyEvent } from '@/lib/checkout/stateMachine';
+import { AcpRequestError, createAcpError } from '@/lib/acp/errors';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SHARED_PAYMENT_TOKEN_PREFIX = 'spt_';
+const TOKEN_PARAM = '$.payment_data.token';
+
+/**
+ * Decline codes that need the buyer to authenticate rather than pay another way
+ */
+const AUTHENTICATION_DECLINE_CODES = ['authentication_required'];
+
+/**
+ * PaymentIntent statuses Stripe allows to be canceled
+ */
+const CANCELABLE_STATUSES: Stripe.PaymentIntent.Status[] = [
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+  'requires_capture',
+  'processing',
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * PaymentIntent creation params with the Shared Payment Token field, which
+ * the Stripe SDK types do not include yet
+ */
+type SharedPaymentTokenIntentParams = Stripe.PaymentIntentCreateParams & {
+  shared_payment_granted_token: string;
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Builds the ACP error for a declined payment
+ * @param declineCode - Stripe decline or error code, if any
+ * @param message - Reason given by Stripe
+ * @returns requires_3ds when the buyer has to authenticate, otherwise payment_declined
+ */
+function declineError(declineCode: string | undefined, message: string): AcpRequestError {
+  if (declineCode && AUTHENTICATION_DECLINE_CODES.includes(declineCode)) {
+    return createAcpError('requires_3ds', `Payment requires authentication: ${message}`, TOKEN_PARAM);
+  }
+  return createAcpError(
+    'payment_declined',
+    declineCode ? `Payment declined (${declineCode}): ${message}` : `Payment declined: ${message}`,
+    TOKEN_PARAM
+  );
+}
+
+/**
+ * Converts a Stripe error raised while charging or retrieving a payment
+ * @param error - Error thrown by the Stripe client
+ * @returns ACP error for card, request and idempotency errors, otherwise the
+ * original error
+ */
+function toPaymentError(error: unknown): unknown {
+  if (error instanceof Stripe.errors.StripeCardError) {
+    return declineError(error.decline_code || error.code, error.message);
+  }
+  if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+    return createAcpError('invalid', `Payment token not recognized: ${error.message}`, TOKEN_PARAM);
+  }
+  // The token was already used for this checkout with other payment details
+  if (error instanceof Stripe.errors.StripeIdempotencyError) {
+    return createAcpError(
+      'invalid',
+      `Payment token was already used with different payment details: ${error.message}`,
+      TOKEN_PARAM,
+      422
+    );
+  }
+  return error;
+}
+
+/**
+ * Checks that a PaymentIntent has succeeded
+ * @param paymentIntent - PaymentIntent to check
+ * @throws AcpRequestError with requires_3ds if the buyer must authenticate,
+ * or payment_declined for any other unsuccessful status
+ */
+function assertPaymentSucceeded(paymentIntent: Stripe.PaymentIntent): void {
+  if (paymentIntent.status === 'succeeded') {
+    return;
+  }
+  if (paymentIntent.status === 'requires_action') {
+    throw createAcpError(
+      'requires_3ds',
+      'Payment requires additional authentication by the buyer',
+      TOKEN_PARAM
+    );
+  }
+
+  const lastError = paymentIntent.last_payment_error;
+  if (lastError) {
+    throw declineError(
+      lastError.decline_code || lastError.code,
+      lastError.message || `Status: ${paymentIntent.status}`
+    );
+  }
+  throw createAcpError(
+    'payment_declined',
+    `Payment not successful. Status: ${paymentIntent.status}`,
+    TOKEN_PARAM
+  );
+}
+
+/**
+ * Checks that a PaymentIntent charged the checkout total in its currency
+ * @param paymentIntent - PaymentIntent to check
+ * @param amount - Expected amount in minor units
+ * @param currency - Expected currency
+ * @throws AcpRequestError if the amount or currency differ
+ */
+function assertPaymentMatches(
+  paymentIntent: Stripe.PaymentIntent,
+  amount: number,
+  currency: string
+): void {
+  if (paymentIntent.amount !== amount) {
+    throw createAcpError(
+      'invalid',
+      `Payment amount mismatch. Expected ${amount}, but was ${paymentIntent.amount}`,
+      TOKEN_PARAM,
+      422
+    );
+  }
+
+  if (paymentIntent.currency !== currency) {
+    throw createAcpError(
+      'invalid',
+      `Payment currency mismatch. Expected ${currency}, but was ${paymentIntent.currency}`,
+      TOKEN_PARAM,
+      422
+    );
+  }
+}
+
+// ============================================================================
+// PAYMENT FUNCTIONS
+// ============================================================================
+
+/**
+ * Checks whether a payment token is a Shared Payment Token
+ * @param token - Token from payment_data
+ * @returns True for spt_ tokens
+ */
+export function isSharedPaymentToken(token: string): boolean {
+  return token.startsWith(SHARED_PAYMENT_TOKEN_PREFIX);
+}
+
+/**
+ * Creates and confirms a PaymentIntent for the checkout total using a Shared
+ * Payment Token. The Stripe idempotency key is derived from the checkout,
+ * token and amount, so a retried completion never charges the token twice and
+ * a changed cart is charged as a new payment.
+ * @param token - Shared Payment Token granted by the agent
+ * @param checkoutId - Checkout session being paid
+ * @param amount - Checkout total in minor units
+ * @param currency - Checkout currency
+ * @returns Succeeded PaymentIntent
+ * @throws AcpRequestError if the payment is declined, needs authentication or
+ * the token is not accepted
+ */
+export async function chargeSharedPaymentToken(
+  token: string,
+  checkoutId: string,
+  amount: number,
+  currency: string
+): Promise<Stripe.PaymentIntent> {
+  const params: SharedPaymentTokenIntentParams = {
+    amount,
+    currency,
+    shared_payment_granted_token: token,
+    confirm: true,
+    metadata: { checkout_id: checkoutId },
+  };
+
+  let paymentIntent: Stripe.PaymentIntent;
+  try {
+    paymentIntent = await stripe.paymentIntents.create(params, {
+      idempotencyKey: `checkout_${checkoutId}_${token}_${amount}_${currency}`,
+    });
+  } catch (error) {
+    throw toPaymentError(error);
+  }
+
+  // The agent cannot complete authentication for the buyer, so an intent
+  // waiting on it is canceled rather than left open against the token
+  if (paymentIntent.status === 'requires_action') {
+    await stripe.paymentIntents.cancel(paymentIntent.id).catch((error) => {
+      console.error(`Failed to cancel PaymentIntent ${paymentIntent.id}:`, error);
+    });
+  }
+
+  assertPaymentSucceeded(paymentIntent);
+  assertPaymentMatches(paymentIntent, amount, currency);
+  return paymentIntent;
+}
+
+/**
+ * Creates and confirms a PaymentIntent for the checkout total with a card
+ * released from the vault. The Stripe idempotency key is derived from the
+ * checkout, vault token and amount, matching the Shared Payment Token path.
+ * @param credential - Decrypted delegated credential
+ * @param vaultToken - Vault token the credential was redeemed with
+ * @param checkoutId - Checkout session being paid
+ * @param amount - Checkout total in minor units
+ * @param currency - Checkout currency
+ * @returns Succeeded PaymentIntent
+ * @throws AcpRequestError if the card is declined or needs authentication
+ */
+export async function chargeDelegatedCard(
+  credential: VaultedCredential,
+  vaultToken: string,
+  checkoutId: string,
+  amount: number,
+  currency: string
+): Promise<Stripe.PaymentIntent> {
+  const card = credential.payment_method;
+  const address = credential.billing_address;
+
+  let paymentIntent: Stripe.PaymentIntent;
+  try {
+    const paymentMethod = await stripe.paymentMethods.create({
+      type: 'card',
+      card: {
+        number: card.number,
+        exp_month: card.exp_month ? Number(card.exp_month) : undefined,
+        exp_year: card.exp_year ? Number(card.exp_year) : undefined,
+        cvc: card.cvc,
+      },
+      billing_details: {
+        name: address?.name || card.name,
+        address: address && {
+          line1: address.line_one,
+          line2: address.line_two,
+          city: address.city,
+          state: address.state,
+          country: address.country,
+          postal_code: address.postal_code,
+        },
+      },
+    });
+
+    paymentIntent = await stripe.paymentIntents.create(
+      {
+        amount,
+        currency,
+        payment_method: paymentMethod.id,
+        payment_method_types: ['card'],
+        confirm: true,
+        metadata: { checkout_id: checkoutId, vault_token: vaultToken },
+      },
+      { idempotencyKey: `checkout_${checkoutId}_${vaultToken}_${amount}_${currency}` }
+    );
+  } catch (error) {
+    throw toPaymentError(error);
+  }
+
+  assertPaymentSucceeded(paymentIntent);
+  assertPaymentMatches(paymentIntent, amount, currency);
+  return paymentIntent;
+}
+
+/**
+ * Retrieves a PaymentIntent confirmed client-side and checks it was created
+ * for this checkout and paid its total
+ * @param paymentIntentId - PaymentIntent ID from payment_data
+ * @param checkoutId - Checkout session being paid
+ * @param amount - Checkout total in minor units
+ * @param currency - Checkout currency
+ * @returns Succeeded PaymentIntent
+ * @throws AcpRequestError if the payment is bound to another checkout, did
+ * not succeed, does not match the total or is not recognized
+ */
+export async function verifyPaymentIntent(
+  paymentIntentId: string,
+  checkoutId: string,
+  amount: number,
+  currency: string
+): Promise<Stripe.PaymentIntent> {
+  let paymentIntent: Stripe.PaymentIntent;
+  try {
+    paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+  } catch (error) {
+    throw toPaymentError(error);
+  }
+
+  // A PaymentIntent paid for another checkout must not complete this one
+  if (paymentIntent.metadata?.checkout_id !== checkoutId) {
+    throw createAcpError(
+      'invalid',
+      `PaymentIntent ${paymentIntent.id} was not created for checkout session ${checkoutId}`,
+      TOKEN_PARAM,
+      422
+    );
+  }
+
+  assertPaymentSucceeded(paymentIntent);
+  assertPaymentMatches(paymentIntent, amount, currency);
+  return paymentIntent;
+}
+
+/**
+ * Cancels the PaymentIntent the payment form created for a checkout, so a
+ * canceled checkout can no longer be paid
+ * @param checkoutId - Checkout session being canceled
+ * @throws AcpRequestError with code invalid_state if the payment already
+ * succeeded or Stripe refuses to cancel it
+ */
+export async function cancelCheckoutPaymentIntent(checkoutId: string): Promise<void> {
+  const paymentIntentId = readPaymentIntentsFromFile().get(checkoutId);
+  if (!paymentIntentId) {
+    return;
+  }
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+  if (paymentIntent.status === 'succeeded') {
+    throw createAcpError(
+      'invalid_state',
+      `Checkout session ${checkoutId} has already been paid by ${paymentIntent.id}`,
+      '$.status'
+    );
+  }
+  if (!CANCELABLE_STATUSES.includes(paymentIntent.status)) {
+    return;
+  }
+
+  try {
+    await stripe.paymentIntents.cancel(paymentIntent.id, { cancellation_reason: 'abandoned' });
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+      throw createAcpError(
+        'invalid_state',
+        `Payment ${paymentIntent.id} for checkout session ${checkoutId} cannot be canceled: ${error.message}`,
+        '$.status'
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Moves a checkout to in_progress while its PaymentIntent is processing (bank
+ * debits and similar methods), so the payment form is not offered again. The
+ * Stripe webhook completes the checkout or releases it once the payment
+ * settles.
+ * @param checkoutId - Checkout session being paid
+ * @param paymentIntent - PaymentIntent confirmed for the checkout
+ * @returns True if the checkout is held for the payment
+ */
+export function holdCheckoutForProcessingPayment(
+  checkoutId: string,
+  paymentIntent: Stripe.PaymentIntent
+): boolean {
+  if (paymentIntent.status !== 'processing' || paymentIntent.metadata?.checkout_id !== checkoutId) {
+    return false;
+  }
+
+  const sessions = readSessionsFromFile();
+  const checkout = sessions.get(checkoutId);
+  if (!checkout) {
+    return false;
+  }
+  if (checkout.status === 'in_progress') {
+    return true;
+  }
+  if (!canApplyEvent(checkout.status, 'begin_payment')) {
+    return false;
+  }
+
+  applyCheckoutEvent(checkout, 'begin_payment');
+  sessions.set(checkoutId, checkout);
+  writeSessionsToFile(sessions);
+  return true;
+}
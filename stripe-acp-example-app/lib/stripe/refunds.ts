@@ -0,0 +1,117 @@
+/**
+ * Order Refunds
+ *
+ * Responsibilities:
+ * - Issue Stripe refunds against an order's PaymentIntent
+ * - Record refunds and the refunded total on the order
+ * - Run refunds of the same order one at a time, so each one is planned
+ *   against the refunds before it
+ */
+
+import Stripe from 'stripe';
+import { Order, OrderRefund } from '@/lib/types/order';
+import { RefundPlan } from '@/lib/checkout/refunds';
+import { stripe } from '@/lib/stripe/client';
+import { createAcpError } from '@/lib/acp/errors';
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+// Tail of the refund queue of each order, removed once it runs empty
+const refundQueues = new Map<string, Promise<unknown>>();
+
+// ============================================================================
+// REFUND FUNCTIONS
+// ============================================================================
+
+/**
+ * Runs a refund task once every earlier task for the same order has settled.
+ * Two partial refunds sent in parallel would otherwise both be planned
+ * against the same remaining balance.
+ * @param orderId - Order the task refunds
+ * @param task - Reads the order, plans, issues and records the refund
+ * @returns Result of the task
+ */
+export async function withOrderRefundLock<T>(orderId: string, task: () => Promise<T>): Promise<T> {
+  const previous = refundQueues.get(orderId) || Promise.resolve();
+  const current = previous.catch(() => undefined).then(task);
+  refundQueues.set(orderId, current);
+  try {
+    return await current;
+  } finally {
+    if (refundQueues.get(orderId) === current) {
+      refundQueues.delete(orderId);
+    }
+  }
+}
+
+/**
+ * Refunds a planned amount through Stripe. The refund is not recorded; the
+ * caller re-reads the order and passes it to recordOrderRefund.
+ * @param order - Order to refund
+ * @param plan - Amount and line items from planRefund
+ * @param reason - Reason recorded with the refund
+ * @param idempotencyKey - Stripe idempotency key, so a retried request is not
+ * refunded twice
+ * @returns Refund to record
+ * @throws AcpRequestError with code invalid (422) if Stripe rejects the refund
+ */
+export async function issueOrderRefund(
+  order: Order,
+  plan: RefundPlan,
+  reason: string | undefined,
+  idempotencyKey: string | undefined
+): Promise<OrderRefund> {
+  let stripeRefund: Stripe.Refund;
+  try {
+    stripeRefund = await stripe.refunds.create(
+      {
+        payment_intent: order.payment_intent_id,
+        amount: plan.amount,
+        metadata: { order_id: order.id, checkout_id: order.checkout_id },
+      },
+      idempotencyKey ? { idempotencyKey } : undefined
+    );
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+      throw createAcpError('invalid', `Refund rejected by Stripe: ${error.message}`, undefined, 422);
+    }
+    throw error;
+  }
+
+  return {
+    id: stripeRefund.id,
+    type: 'original_payment',
+    amount: plan.amount,
+    status: (stripeRefund.status as OrderRefund['status']) || 'pending',
+    ...(reason && { reason }),
+    ...(plan.line_items.length > 0 && { line_items: plan.line_items }),
+    created_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Records a refund on the order in place and recomputes the refunded total.
+ * The charge.refunded webhook may have recorded the refund already; its
+ * entry is then completed with the requested line items. The caller
+ * persists the order.
+ * @param order - Order freshly read from storage
+ * @param refund - Refund returned by issueOrderRefund
+ */
+export function recordOrderRefund(order: Order, refund: OrderRefund): void {
+  const refunds = [...(order.refunds || [])];
+  const index = refunds.findIndex((r) => r.id === refund.id);
+  if (index === -1) {
+    refunds.push(refund);
+  } else {
+    // Keep the status the webhook synced, which is newer than the response
+    refunds[index] = { ...refund, status: refunds[index].status };
+  }
+
+  order.refunds = refunds;
+  order.refunded_amount = refunds
+    .filter((r) => r.status !== 'failed' && r.status !== 'canceled')
+    .reduce((sum, r) => sum + r.amount, 0);
+  order.updated_at = new Date().toISOString();
+}
@@ -0,0 +1,228 @@
+/**
+ * Stripe Webhook Handlers
+ *
+ * Responsibilities:
+ * - Create the order for a checkout paid without a complete call
+ *   (payment_intent.succeeded)
+ * - Release checkout sessions whose payment failed (payment_intent.payment_failed)
+ * - Sync refunds made through the API or the Stripe Dashboard onto orders
+ *   (charge.refunded)
+ * - Keep every handler idempotent so redelivered events change nothing
+ */
+
+import Stripe from 'stripe';
+import { OrderRefund } from '@/lib/types/order';
+import { readSessionsFromFile, writeSessionsToFile } from '@/lib/checkout/sessionStorage';
+import { readOrdersFromFile, writeOrdersToFile } from '@/lib/checkout/orderStorage';
+import {
+  findOrderByCheckoutId,
+  generateOrderId,
+  recordPaidOrder,
+} from '@/lib/checkout/orderCreation';
+import { applyCheckoutEvent, canApplyEvent } from '@/lib/checkout/stateMachine';
+import { createDigitalDeliveries } from '@/lib/checkout/digitalDelivery';
+import { emitOrderEvent } from '@/lib/webhooks/orderEvents';
+import { stripe } from '@/lib/stripe/client';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Converts a Stripe refund into an order refund
+ * @param refund - Stripe refund
+ * @returns Order refund without line items
+ */
+function toOrderRefund(refund: Stripe.Refund): OrderRefund {
+  return {
+    id: refund.id,
+    type: 'original_payment',
+    amount: refund.amount,
+    status: (refund.status as OrderRefund['status']) || 'pending',
+    ...(refund.reason && { reason: refund.reason }),
+    created_at: new Date(refund.created * 1000).toISOString(),
+  };
+}
+
+/**
+ * Lists the refunds of a charge. Events carry them only when the refunds
+ * list is expanded, otherwise they are fetched from Stripe.
+ * @param charge - Refunded charge
+ * @returns Refunds of the charge
+ */
+async function listChargeRefunds(charge: Stripe.Charge): Promise<Stripe.Refund[]> {
+  if (charge.refunds?.data) {
+    return charge.refunds.data;
+  }
+  const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+  return refunds.data;
+}
+
+// ============================================================================
+// EVENT HANDLERS
+// ============================================================================
+
+/**
+ * Creates the order for a succeeded PaymentIntent bound to a checkout
+ * @param paymentIntent - Succeeded PaymentIntent
+ * @param baseUrl - Origin the app is served from
+ * @returns Outcome description
+ */
+async function handlePaymentSucceeded(
+  paymentIntent: Stripe.PaymentIntent,
+  baseUrl: string
+): Promise<string> {
+  const checkoutId = paymentIntent.metadata?.checkout_id;
+  if (!checkoutId) {
+    return 'ignored: no checkout_id in metadata';
+  }
+
+  const checkoutSessions = readSessionsFromFile();
+  const checkout = checkoutSessions.get(checkoutId);
+  if (!checkout) {
+    console.error(`PaymentIntent ${paymentIntent.id} references unknown checkout ${checkoutId}`);
+    return `ignored: checkout ${checkoutId} not found`;
+  }
+
+  if (findOrderByCheckoutId(readOrdersFromFile(), checkoutId)) {
+    return `order already recorded for ${checkoutId}`;
+  }
+
+  // A payment that no longer matches the session, or arrives after it was
+  // canceled, is left for manual review instead of creating a wrong order
+  const totalAmount = checkout.totals.find((t) => t.label === 'Total')?.amount;
+  if (paymentIntent.amount !== totalAmount || paymentIntent.currency !== checkout.currency) {
+    console.error(
+      `PaymentIntent ${paymentIntent.id} paid ${paymentIntent.amount} ${paymentIntent.currency}, ` +
+        `but checkout ${checkoutId} totals ${totalAmount} ${checkout.currency}`
+    );
+    return 'ignored: amount does not match checkout total';
+  }
+  if (!canApplyEvent(checkout.status, 'reconcile_payment')) {
+    console.error(`PaymentIntent ${paymentIntent.id} succeeded for ${checkout.status} checkout ${checkoutId}`);
+    return `ignored: checkout is ${checkout.status}`;
+  }
+
+  const orderId = generateOrderId();
+  const deliveries = createDigitalDeliveries(
+    orderId,
+    checkout.line_items,
+    checkout.buyer?.email || '',
+    baseUrl
+  );
+  const { order, created } = recordPaidOrder(
+    orderId,
+    checkout,
+    paymentIntent.id,
+    paymentIntent.amount,
+    deliveries
+  );
+
+  applyCheckoutEvent(checkout, 'reconcile_payment');
+  checkoutSessions.set(checkoutId, checkout);
+  writeSessionsToFile(checkoutSessions);
+
+  if (created) {
+    emitOrderEvent('order_created', order, baseUrl);
+  }
+  return `order ${order.id} created for ${checkoutId}`;
+}
+
+/**
+ * Releases a checkout session locked for a payment that failed
+ * @param paymentIntent - Failed PaymentIntent
+ * @returns Outcome description
+ */
+async function handlePaymentFailed(paymentIntent: Stripe.PaymentIntent): Promise<string> {
+  const checkoutId = paymentIntent.metadata?.checkout_id;
+  if (!checkoutId) {
+    return 'ignored: no checkout_id in metadata';
+  }
+
+  const checkoutSessions = readSessionsFromFile();
+  const checkout = checkoutSessions.get(checkoutId);
+  if (!checkout || !canApplyEvent(checkout.status, 'fail_payment')) {
+    return 'no change';
+  }
+
+  console.warn(
+    `Payment failed for checkout ${checkoutId}:`,
+    paymentIntent.last_payment_error?.message || paymentIntent.status
+  );
+  applyCheckoutEvent(checkout, 'fail_payment');
+  checkoutSessions.set(checkoutId, checkout);
+  writeSessionsToFile(checkoutSessions);
+  return `checkout ${checkoutId} released for another payment`;
+}
+
+/**
+ * Records the refunds of a charge on its order and recomputes the refunded total
+ * @param charge - Refunded charge
+ * @param baseUrl - Origin the app is served from
+ * @returns Outcome description
+ */
+async function handleChargeRefunded(charge: Stripe.Charge, baseUrl: string): Promise<string> {
+  const paymentIntentId =
+    typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+  if (!paymentIntentId) {
+    return 'ignored: charge has no PaymentIntent';
+  }
+
+  const orders = readOrdersFromFile();
+  const order = Array.from(orders.values()).find((o) => o.payment_intent_id === paymentIntentId);
+  if (!order) {
+    return `ignored: no order for ${paymentIntentId}`;
+  }
+
+  let changed = false;
+  const refunds = [...(order.refunds || [])];
+  for (const stripeRefund of await listChargeRefunds(charge)) {
+    const refund = toOrderRefund(stripeRefund);
+    const index = refunds.findIndex((r) => r.id === refund.id);
+    if (index === -1) {
+      refunds.push(refund);
+      changed = true;
+    } else if (refunds[index].status !== refund.status) {
+      // Keep the line items recorded when the refund was requested
+      refunds[index] = { ...refunds[index], status: refund.status };
+      changed = true;
+    }
+  }
+  if (!changed) {
+    return `refunds already recorded on ${order.id}`;
+  }
+
+  order.refunds = refunds;
+  order.refunded_amount = refunds
+    .filter((refund) => refund.status !== 'failed' && refund.status !== 'canceled')
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  order.updated_at = new Date().toISOString();
+
+  orders.set(order.id, order);
+  writeOrdersToFile(orders);
+  emitOrderEvent('order_updated', order, baseUrl);
+  return `refunds updated on ${order.id}`;
+}
+
+// ============================================================================
+// DISPATCH FUNCTIONS
+// ============================================================================
+
+/**
+ * Handles a verified Stripe event
+ * @param event - Stripe event
+ * @param baseUrl - Origin the app is served from
+ * @returns Outcome description
+ */
+export async function handleStripeEvent(event: Stripe.Event, baseUrl: string): Promise<string> {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      return handlePaymentSucceeded(event.data.object, baseUrl);
+    case 'payment_intent.payment_failed':
+      return handlePaymentFailed(event.data.object);
+    case 'charge.refunded':
+      return handleChargeRefunded(event.data.object, baseUrl);
+    default:
+      return `ignored: unhandled event type ${event.type}`;
+  }
+}
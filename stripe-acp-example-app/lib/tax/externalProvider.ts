@@ -0,0 +1,89 @@
+/**
+ * External Tax Service Adapter
+ *
+ * Responsibilities:
+ * - Forward tax requests to a third-party tax service over HTTP
+ * - Map the service response onto a TaxQuote
+ *
+ * This is a stub: the request/response mapping assumes a service that accepts
+ * a TaxRequest and answers with jurisdiction and rates. Adjust
+ * toTaxQuote for the vendor you integrate.
+ */
+
+import { TaxProvider, TaxQuote, TaxRequest } from '@/lib/types/tax';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Connection settings for the external tax service
+ */
+export interface ExternalTaxConfig {
+  url: string;
+  apiKey: string;
+}
+
+/**
+ * Response expected from the external tax service
+ */
+interface ExternalTaxResponse {
+  jurisdiction: { code: string; name: string };
+  line_rates: number[];
+  shipping_rate?: number;
+  prices_include_tax?: boolean;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Maps a service response onto a TaxQuote
+ * @param response - Parsed service response
+ * @param request - Original request, used to check the line count
+ * @returns Tax quote
+ */
+function toTaxQuote(response: ExternalTaxResponse, request: TaxRequest): TaxQuote {
+  if (!Array.isArray(response.line_rates) || response.line_rates.length !== request.lines.length) {
+    throw new Error('External tax service returned rates for the wrong number of lines');
+  }
+
+  return {
+    jurisdiction: response.jurisdiction,
+    line_rates: response.line_rates,
+    shipping_rate: response.shipping_rate || 0,
+    prices_include_tax: response.prices_include_tax === true,
+  };
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * Creates a tax provider backed by an external tax service
+ * @param config - Service URL and API key
+ * @returns Tax provider
+ */
+export function createExternalTaxProvider(config: ExternalTaxConfig): TaxProvider {
+  return {
+    name: 'external',
+    quoteTax: async (request) => {
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${config.apiKey}`,
+        },
+        body: JSON.stringify(request),
+      });
+
+      if (!response.ok) {
+        throw new Error(`External tax service responded with ${response.status}`);
+      }
+
+      return toTaxQuote((await response.json()) as ExternalTaxResponse, request);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Tax Provider Selection
+ *
+ * Responsibilities:
+ * - Choose the tax provider configured through TAX_PROVIDER
+ * - Default to the built-in rules engine
+ */
+
+import { TaxProvider } from '@/lib/types/tax';
+import { rulesTaxProvider } from '@/lib/tax/rulesProvider';
+import { createExternalTaxProvider } from '@/lib/tax/externalProvider';
+
+// ============================================================================
+// PROVIDER FUNCTIONS
+// ============================================================================
+
+/**
+ * Returns the configured tax provider
+ * @returns External provider when TAX_PROVIDER=external, else the rules engine
+ * @throws Error if the external provider is selected but not configured
+ */
+export function getTaxProvider(): TaxProvider {
+  if (process.env.TAX_PROVIDER !== 'external') {
+    return rulesTaxProvider;
+  }
+
+  const url = process.env.TAX_SERVICE_URL;
+  const apiKey = process.env.TAX_SERVICE_API_KEY;
+  if (!url || !apiKey) {
+    throw new Error('TAX_SERVICE_URL and TAX_SERVICE_API_KEY must be set when TAX_PROVIDER=external');
+  }
+
+  return createExternalTaxProvider({ url, apiKey });
+}
@@ -0,0 +1,124 @@
+/**
+ * Built-in Tax Rules Engine
+ *
+ * Responsibilities:
+ * - Load per-country and per-state tax rules from data/tax_rates.json
+ * - Resolve the jurisdiction that applies to a fulfillment address
+ * - Quote line and shipping rates, honouring tax-exempt categories
+ */
+
+import { FulfillmentAddress } from '@/lib/types/checkout';
+import { TaxJurisdiction, TaxProvider, TaxQuote, TaxRequest } from '@/lib/types/tax';
+import taxRatesData from '@/data/tax_rates.json';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Tax rule for a country or state. State rules inherit unset fields from
+ * their country.
+ */
+interface TaxRule {
+  name: string;
+  rate: number;
+  prices_include_tax?: boolean;
+  shipping_taxable?: boolean;
+  exempt_categories?: string[];
+}
+
+/**
+ * Country rule with optional state/province overrides
+ */
+interface CountryTaxRule extends TaxRule {
+  states?: Record<string, TaxRule>;
+}
+
+/**
+ * Shape of data/tax_rates.json
+ */
+interface TaxRateTable {
+  default: TaxRule;
+  countries: Record<string, CountryTaxRule>;
+}
+
+/**
+ * Rule resolved for an address, with the jurisdiction it belongs to
+ */
+interface ResolvedTaxRule {
+  jurisdiction: TaxJurisdiction;
+  rule: TaxRule;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Finds the most specific tax rule for an address
+ * @param address - Fulfillment address
+ * @returns Rule and jurisdiction; the table default for unknown countries
+ */
+function resolveTaxRule(address: FulfillmentAddress): ResolvedTaxRule {
+  const table = taxRatesData as TaxRateTable;
+  const countryCode = (address.country || '').trim().toUpperCase();
+  const countryRule = table.countries[countryCode];
+
+  if (!countryRule) {
+    return {
+      jurisdiction: { code: countryCode, name: countryCode || table.default.name },
+      rule: table.default,
+    };
+  }
+
+  const stateCode = (address.state || '').trim().toUpperCase();
+  const stateRule = countryRule.states?.[stateCode];
+  if (!stateRule) {
+    return {
+      jurisdiction: { code: countryCode, name: countryRule.name },
+      rule: countryRule,
+    };
+  }
+
+  return {
+    jurisdiction: {
+      code: `${countryCode}-${stateCode}`,
+      name: `${stateRule.name}, ${countryRule.name}`,
+    },
+    rule: {
+      name: stateRule.name,
+      rate: stateRule.rate,
+      prices_include_tax: stateRule.prices_include_tax ?? countryRule.prices_include_tax,
+      shipping_taxable: stateRule.shipping_taxable ?? countryRule.shipping_taxable,
+      exempt_categories: stateRule.exempt_categories ?? countryRule.exempt_categories,
+    },
+  };
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * Quotes tax from the local rate table
+ * @param request - Address, taxable lines and shipping amount
+ * @returns Rates for each line and for shipping
+ */
+async function quoteTax(request: TaxRequest): Promise<TaxQuote> {
+  const { jurisdiction, rule } = resolveTaxRule(request.address);
+  const exemptCategories = rule.exempt_categories || [];
+
+  return {
+    jurisdiction,
+    line_rates: request.lines.map((line) =>
+      line.category && exemptCategories.includes(line.category) ? 0 : rule.rate
+    ),
+    shipping_rate: rule.shipping_taxable ? rule.rate : 0,
+    prices_include_tax: rule.prices_include_tax === true,
+  };
+}
+
+export const rulesTaxProvider: TaxProvider = {
+  name: 'rules',
+  quoteTax,
+};
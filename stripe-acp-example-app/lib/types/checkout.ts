@@ -47,15 +47,40 @@ export interface LineItem {
 }
 
 /**
- * Fulfillment option (shipping method)
+ * Fulfillment option type
  */
-export interface FulfillmentOption {
+export type FulfillmentOptionType = 'shipping' | 'digital';
+
+/**
+ * Shipping method for physical items
+ */
+export interface ShippingFulfillmentOption {
+  type: 'shipping';
   id: string;
   name: string;
   amount: number;
   description?: string;
+  carrier?: string;
+  earliest_delivery_time: string;
+  latest_delivery_time: string;
 }
 
+/**
+ * Electronic delivery for digital items (download link sent by email)
+ */
+export interface DigitalFulfillmentOption {
+  type: 'digital';
+  id: string;
+  name: string;
+  amount: number;
+  description?: string;
+}
+
+/**
+ * Fulfillment option
+ */
+export type FulfillmentOption = ShippingFulfillmentOption | DigitalFulfillmentOption;
+
 /**
  * Total line item
  */
@@ -72,6 +97,61 @@ export interface PaymentProvider {
   supported_payment_methods: string[];
 }
 
+/**
+ * Message content format
+ */
+export type MessageContentType = 'plain' | 'markdown';
+
+/**
+ * Error message code
+ */
+export type MessageErrorCode =
+  | 'missing'
+  | 'invalid'
+  | 'out_of_stock'
+  | 'payment_declined'
+  | 'requires_sign_in'
+  | 'requires_3ds';
+
+/**
+ * Informational message shown to the buyer
+ */
+export interface InfoMessage {
+  type: 'info';
+  param?: string;
+  content_type: MessageContentType;
+  content: string;
+}
+
+/**
+ * Error message shown to the buyer, blocks payment until resolved
+ */
+export interface ErrorMessage {
+  type: 'error';
+  code: MessageErrorCode;
+  param?: string;
+  content_type: MessageContentType;
+  content: string;
+}
+
+/**
+ * Message attached to a checkout session
+ */
+export type Message = InfoMessage | ErrorMessage;
+
+/**
+ * Link type
+ */
+export type LinkType = 'terms_of_use' | 'privacy_policy' | 'seller_shop_policies';
+
+/**
+ * Link shown to the buyer (e.g. terms of use, privacy policy)
+ */
+export interface Link {
+  type: LinkType;
+  value: string;
+}
+
 /**
  * Checkout session status
  */
@@ -96,8 +176,8 @@ export interface CheckoutSession {
   fulfillment_options: FulfillmentOption[];
   fulfillment_option_id?: string;
   totals: TotalItem[];
-  messages: string[];
-  links: string[];
+  messages: Message[];
+  links: Link[];
 }
 
 /**
@@ -114,6 +194,7 @@ export interface CreateCheckoutRequest {
  */
 export interface UpdateCheckoutRequest {
   buyer?: Buyer;
+  items?: CartItem[];
   fulfillment_address?: FulfillmentAddress;
   fulfillment_option_id?: string;
 }
@@ -0,0 +1,82 @@
+/**
+ * Delegated payment type definitions for ACP Delegated Payment Spec
+ */
+
+import { FulfillmentAddress } from './checkout';
+
+/**
+ * Card number type
+ */
+export type CardNumberType = 'fpan' | 'network_token';
+
+/**
+ * Card funding type shown to the buyer
+ */
+export type CardFundingType = 'credit' | 'debit' | 'prepaid';
+
+/**
+ * Card credential delegated by the agent
+ */
+export interface DelegatedCard {
+  type: 'card';
+  card_number_type: CardNumberType;
+  number: string;
+  exp_month?: string;
+  exp_year?: string;
+  name?: string;
+  cvc?: string;
+  cryptogram?: string;
+  eci_value?: string;
+  checks_performed?: string[];
+  iin?: string;
+  display_card_funding_type: CardFundingType;
+  display_wallet_type?: string;
+  display_brand?: string;
+  display_last4?: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Limits on what a delegated credential may be used for
+ */
+export interface Allowance {
+  reason?: 'one_time';
+  max_amount: number;
+  currency: string;
+  checkout_session_id: string;
+  merchant_id: string;
+  expires_at: string;
+}
+
+/**
+ * Risk signal type
+ */
+export type RiskSignalType = 'device_fingerprint' | 'ip_address' | 'session_id';
+
+/**
+ * Risk signal sent with a delegated credential
+ */
+export interface RiskSignal {
+  type: RiskSignalType;
+  value: string;
+}
+
+/**
+ * Request to delegate a payment credential
+ */
+export interface DelegatePaymentRequest {
+  payment_method: DelegatedCard;
+  allowance: Allowance;
+  billing_address?: FulfillmentAddress;
+  risk_signals: RiskSignal[];
+  metadata: Record<string, string>;
+}
+
+/**
+ * Vault token returned for a delegated credential
+ */
+export interface DelegatePaymentResponse {
+  id: string;
+  created: string;
+  metadata: Record<string, string>;
+}
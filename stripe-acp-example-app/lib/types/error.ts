@@ -0,0 +1,43 @@
+/**
+ * Error type definitions for ACP Agentic Checkout Spec
+ */
+
+/**
+ * Error type
+ */
+export type AcpErrorType =
+  | 'invalid_request'
+  | 'rate_limit_exceeded'
+  | 'processing_error'
+  | 'service_unavailable';
+
+/**
+ * Error code
+ */
+export type AcpErrorCode =
+  | 'missing'
+  | 'invalid'
+  | 'not_found'
+  | 'out_of_stock'
+  | 'payment_declined'
+  | 'invalid_card'
+  | 'requires_sign_in'
+  | 'requires_3ds'
+  | 'processing_error'
+  | 'request_not_idempotent'
+  | 'idempotency_conflict'
+  | 'invalid_state'
+  | 'invalid_authorization'
+  | 'invalid_signature'
+  | 'invalid_timestamp'
+  | 'unsupported_api_version';
+
+/**
+ * Error returned by ACP endpoints with a 4xx/5xx status
+ */
+export interface AcpError {
+  type: AcpErrorType;
+  code: AcpErrorCode;
+  message: string;
+  param?: string;
+}
@@ -2,19 +2,115 @@
  * Order type definitions
  */
 
-import { CheckoutSession } from './checkout';
+import { CheckoutSession, FulfillmentAddress, FulfillmentOption, LineItem } from './checkout';
 
 /**
- * Order confirmation after successful payment
+ * Delivery record for a digital item on an order
+ */
+export interface DigitalDelivery {
+  product_id: string;
+  quantity: number;
+  email: string;
+  download_url: string;
+  expires_at: string;
+}
+
+/**
+ * Refund as reported in order webhook events
+ */
+export interface Refund {
+  type: 'store_credit' | 'original_payment';
+  amount: number;
+}
+
+/**
+ * Line item quantity covered by a refund
+ */
+export interface RefundLineItem {
+  id: string;
+  quantity: number;
+  amount: number;
+}
+
+/**
+ * Refund recorded on an order
+ */
+export interface OrderRefund extends Refund {
+  id: string;
+  status: 'pending' | 'succeeded' | 'failed' | 'canceled' | 'requires_action';
+  reason?: string;
+  line_items?: RefundLineItem[];
+  created_at: string;
+}
+
+/**
+ * Order status
+ */
+export type OrderStatus = 'confirmed' | 'fulfilled' | 'shipped' | 'delivered' | 'canceled';
+
+/**
+ * Carrier and tracking details of a shipped order
+ */
+export interface Shipment {
+  carrier: string;
+  tracking_number: string;
+  tracking_url?: string;
+}
+
+/**
+ * Order created after successful payment
  */
 export interface Order {
   id: string;
   checkout_id: string;
   payment_intent_id: string;
-  status: 'completed';
+  status: OrderStatus;
   total_amount: number;
   currency: string;
   created_at: string;
+  updated_at: string;
+  confirmed_at: string;
+  fulfilled_at?: string;
+  shipped_at?: string;
+  delivered_at?: string;
+  canceled_at?: string;
+  cancellation_reason?: string;
+  line_items: LineItem[];
+  fulfillment_address?: FulfillmentAddress;
+  fulfillment_option?: FulfillmentOption;
+  shipment?: Shipment;
+  deliveries?: DigitalDelivery[];
+  refunds: OrderRefund[];
+  refunded_amount: number;
+}
+
+/**
+ * Request to ship an order
+ */
+export interface ShipOrderRequest {
+  carrier: string;
+  tracking_number: string;
+  tracking_url?: string;
+}
+
+/**
+ * Request to refund an order. Without amount or line items, everything still
+ * refundable is refunded. Agents must name the checkout the order was placed
+ * from in checkout_id.
+ */
+export interface CreateRefundRequest {
+  checkout_id?: string;
+  amount?: number;
+  line_items?: Array<{ id: string; quantity: number }>;
+  reason?: string;
+  override_policy?: boolean;
+}
+
+/**
+ * Request to cancel an order
+ */
+export interface CancelOrderRequest {
+  reason?: string;
 }
 
 /**
@@ -24,3 +120,21 @@ export interface CompleteCheckoutResponse {
   checkout: CheckoutSession;
   order: Order;
 }
+
+/**
+ * Refund response with the updated order
+ */
+export interface CreateRefundResponse {
+  refund: OrderRefund;
+  order: Order;
+}
+
+/**
+ * Page of orders returned by the orders API
+ */
+export interface OrderListResponse {
+  orders: Order[];
+  total: number;
+  limit: number;
+  offset: number;
+}
@@ -2,23 +2,88 @@
  * Payment type definitions for Stripe integration
  */
 
+import { TotalItem } from './checkout';
+
 /**
- * Request to create PaymentIntent
+ * Request to create PaymentIntent. Amount and currency are taken from the
+ * checkout session.
  */
 export interface CreatePaymentIntentRequest {
+  checkout_id: string;
+}
+
+/**
+ * PaymentIntent response. A status of processing means an earlier payment for
+ * the checkout is still settling and must not be confirmed again.
+ */
+export interface CreatePaymentIntentResponse {
+  client_secret: string;
+  status: string;
   amount: number;
   currency: string;
 }
 
 /**
- * PaymentIntent response
+ * Request to hold a checkout while its confirmed payment is processing
  */
-export interface CreatePaymentIntentResponse {
+export interface ProcessingPaymentRequest {
+  checkout_id: string;
+  payment_intent_id: string;
+}
+
+/**
+ * Request to create a SetupIntent that saves a card for the checkout's buyer
+ */
+export interface CreateSetupIntentRequest {
+  checkout_id: string;
+}
+
+/**
+ * SetupIntent response
+ */
+export interface CreateSetupIntentResponse {
   client_secret: string;
 }
 
 /**
- * Payment data for completing checkout
+ * Card saved on the buyer's Stripe Customer
+ */
+export interface SavedPaymentMethod {
+  id: string;
+  brand: string;
+  last4: string;
+  exp_month: number;
+  exp_year: number;
+}
+
+/**
+ * Saved cards of the buyer of a checkout session. The list stays empty with
+ * verification_required set until the buyer verified the checkout's email.
+ */
+export interface SavedPaymentMethodsResponse {
+  payment_methods: SavedPaymentMethod[];
+  verification_required: boolean;
+}
+
+/**
+ * Request to email a one-time code to the buyer of a checkout session
+ */
+export interface SendVerificationCodeRequest {
+  checkout_id: string;
+}
+
+/**
+ * Request to verify the buyer of a checkout session with the emailed code
+ */
+export interface VerifyBuyerRequest {
+  checkout_id: string;
+  code: string;
+}
+
+/**
+ * Payment data for completing checkout. The token is either a Shared Payment
+ * Token (spt_...) charged by the merchant, or the ID of a PaymentIntent the
+ * buyer already confirmed.
  */
 export interface PaymentData {
   token: string;
@@ -26,8 +91,30 @@ export interface PaymentData {
 }
 
 /**
- * Request to complete checkout with PaymentIntent
+ * Request to complete checkout
  */
 export interface CompleteCheckoutRequest {
   payment_data: PaymentData;
 }
+
+/**
+ * Line of the order summary shown next to the payment form
+ */
+export interface PaymentSummaryLine {
+  id: string;
+  name: string;
+  quantity: number;
+  amount: number;
+}
+
+/**
+ * Checkout session awaiting payment, as shown by the payment form
+ */
+export interface PaymentSummary {
+  checkoutId: string;
+  amount: number;
+  currency: string;
+  buyerEmail?: string;
+  lineItems: PaymentSummaryLine[];
+  totals: TotalItem[];
+}
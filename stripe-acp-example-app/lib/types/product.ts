@@ -3,7 +3,41 @@
  */
 
 /**
- * Represents a single product in the catalog
+ * Package dimensions of a product in centimetres
+ */
+export interface ProductDimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Condition of a product
+ */
+export type ProductCondition = 'new' | 'refurbished' | 'used';
+
+/**
+ * Stock status of a product
+ */
+export type ProductAvailability = 'in_stock' | 'out_of_stock' | 'preorder';
+
+/**
+ * Gender a product variant targets
+ */
+export type ProductGender = 'male' | 'female' | 'unisex';
+
+/**
+ * Window in which the sale price applies, as ISO 8601 timestamps. The start
+ * is inclusive and the end exclusive.
+ */
+export interface SalePriceEffectiveDate {
+  start: string;
+  end: string;
+}
+
+/**
+ * Represents a single product in the catalog. Prices are in minor units.
+ * Variants of one product share an item_group_id and differ by color or size.
  */
 export interface Product {
   id: string;
@@ -11,14 +45,132 @@ export interface Product {
   description: string;
   price: number;
   currency: string;
+  enable_search: boolean;
+  enable_checkout: boolean;
+  brand?: string;
+  gtin?: string;
+  mpn?: string;
+  condition?: ProductCondition;
   image_url?: string;
+  additional_image_urls?: string[];
+  video_urls?: string[];
+  model_3d_urls?: string[];
   category?: string;
+  sale_price?: number;
+  sale_price_effective_date?: SalePriceEffectiveDate;
+  availability: ProductAvailability;
+  availability_date?: string;
+  inventory_quantity?: number;
+  item_group_id?: string;
+  item_group_title?: string;
+  color?: string;
+  size?: string;
+  size_system?: string;
+  gender?: ProductGender;
+  weight_grams?: number;
+  dimensions_cm?: ProductDimensions;
+  digital?: boolean;
+  digital_asset_url?: string;
+}
+
+/**
+ * Sort orders of product search
+ */
+export type ProductSortOrder = 'relevance' | 'price_asc' | 'price_desc' | 'name_asc' | 'name_desc';
+
+/**
+ * Product search request. Multi-value filters match any of their values;
+ * prices are current unit prices in minor units.
+ */
+export interface ProductSearchParams {
+  query?: string;
+  category?: string[];
+  brand?: string[];
+  availability?: ProductAvailability[];
+  min_price?: number;
+  max_price?: number;
+  sort: ProductSortOrder;
+  limit: number;
+  cursor?: string;
+}
+
+/**
+ * Number of matching products with a facet value
+ */
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Number of matching products in a price bucket; max is exclusive and absent
+ * for the top bucket
+ */
+export interface PriceRangeFacet {
+  min: number;
+  max?: number;
+  count: number;
+}
+
+/**
+ * Facet counts of a search. Each facet counts the products matching every
+ * other filter, so the counts show what selecting a value would return.
+ */
+export interface ProductSearchFacets {
+  category: FacetCount[];
+  brand: FacetCount[];
+  availability: FacetCount[];
+  price: PriceRangeFacet[];
 }
 
 /**
- * Response format for product feed API
+ * Product returned by a search, with its BM25 relevance score when the search
+ * has a query
+ */
+export interface RankedProduct extends Product {
+  score?: number;
+}
+
+/**
+ * Response format for product feed API: one page of search results
  */
 export interface ProductFeedResponse {
-  products: Product[];
+  products: RankedProduct[];
   total: number;
+  next_cursor: string | null;
+  facets: ProductSearchFacets;
+}
+
+/**
+ * Bulk delivery formats of the product feed
+ */
+export type FeedExportFormat = 'jsonl' | 'csv' | 'tsv' | 'xml';
+
+/**
+ * Severity of a feed validation issue. Errors make an item invalid; warnings
+ * flag recommended data that is missing or questionable.
+ */
+export type FeedIssueSeverity = 'error' | 'warning';
+
+/**
+ * Problem found with one field of one feed item
+ */
+export interface FeedIssue {
+  index: number;
+  product_id?: string;
+  field: string;
+  severity: FeedIssueSeverity;
+  message: string;
+}
+
+/**
+ * Result of validating a product feed
+ */
+export interface FeedValidationReport {
+  valid: boolean;
+  products_checked: number;
+  invalid_products: number;
+  error_count: number;
+  warning_count: number;
+  issues: FeedIssue[];
 }
@@ -0,0 +1,51 @@
+/**
+ * Tax type definitions
+ */
+
+import { FulfillmentAddress } from './checkout';
+
+/**
+ * Taxable line sent to a tax provider
+ */
+export interface TaxLine {
+  id: string;
+  amount: number;
+  category?: string;
+}
+
+/**
+ * Request for a tax quote
+ */
+export interface TaxRequest {
+  address: FulfillmentAddress;
+  currency: string;
+  lines: TaxLine[];
+  shipping_amount: number;
+}
+
+/**
+ * Jurisdiction whose rules produced a tax quote
+ */
+export interface TaxJurisdiction {
+  code: string;
+  name: string;
+}
+
+/**
+ * Tax rates that apply to a request. Amounts are computed and allocated by
+ * the pricing engine so line items always add up to the totals.
+ */
+export interface TaxQuote {
+  jurisdiction: TaxJurisdiction;
+  line_rates: number[];
+  shipping_rate: number;
+  prices_include_tax: boolean;
+}
+
+/**
+ * Source of tax rates (built-in rules or an external tax service)
+ */
+export interface TaxProvider {
+  name: string;
+  quoteTax(request: TaxRequest): Promise<TaxQuote>;
+}
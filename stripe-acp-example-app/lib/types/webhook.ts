@@ -0,0 +1,40 @@
+/**
+ * Webhook event type definitions for ACP Agentic Checkout Spec
+ */
+
+import { Refund } from './order';
+
+/**
+ * Order event type
+ */
+export type OrderEventType = 'order_created' | 'order_updated';
+
+/**
+ * Order status reported to the agent platform
+ */
+export type OrderEventStatus =
+  | 'created'
+  | 'manual_review'
+  | 'confirmed'
+  | 'canceled'
+  | 'shipped'
+  | 'fulfilled';
+
+/**
+ * Order payload of an order event
+ */
+export interface OrderEventData {
+  type: 'order';
+  checkout_session_id: string;
+  permalink_url: string;
+  status: OrderEventStatus;
+  refunds: Refund[];
+}
+
+/**
+ * Event pushed to the agent platform when an order changes
+ */
+export interface OrderEvent {
+  type: OrderEventType;
+  data: OrderEventData;
+}
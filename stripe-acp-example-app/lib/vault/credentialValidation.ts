@@ -0,0 +1,250 @@
+/**
+ * Delegated Credential Validation
+ *
+ * Responsibilities:
+ * - Validate delegate_payment requests against the Delegated Payment Spec
+ * - Run basic card checks (number format, Luhn, expiry, CVC) and report
+ *   failures as invalid_card
+ * - Check that the allowance is bound to an open checkout session
+ */
+
+import { CheckoutStatus } from '@/lib/types/checkout';
+import { DelegatePaymentRequest } from '@/lib/types/delegatedPayment';
+import { readSessionsFromFile } from '@/lib/checkout/sessionStorage';
+import { createAcpError } from '@/lib/acp/errors';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CARD_NUMBER_TYPES = ['fpan', 'network_token'];
+const CARD_FUNDING_TYPES = ['credit', 'debit', 'prepaid'];
+const RISK_SIGNAL_TYPES = ['device_fingerprint', 'ip_address', 'session_id'];
+const REQUIRED_ADDRESS_FIELDS = ['name', 'line_one', 'city', 'country', 'postal_code'];
+
+/**
+ * Checkout statuses a credential may still be delegated for
+ */
+const PAYABLE_CHECKOUT_STATUSES: CheckoutStatus[] = ['not_ready_for_payment', 'ready_for_payment'];
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Checks that a value is a plain object
+ * @param value - Value to check
+ * @returns True for non-null, non-array objects
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Requires a non-empty string field
+ * @param value - Field value
+ * @param param - JSONPath of the field
+ * @throws AcpRequestError with code missing if the field is absent or empty
+ */
+function requireString(value: unknown, param: string): void {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw createAcpError('missing', `${param.slice(2)} is required`, param);
+  }
+}
+
+/**
+ * Requires an object field
+ * @param value - Field value
+ * @param param - JSONPath of the field
+ * @throws AcpRequestError with code missing if the field is not an object
+ */
+function requireObject(value: unknown, param: string): void {
+  if (!isObject(value)) {
+    throw createAcpError('missing', `${param.slice(2)} is required`, param);
+  }
+}
+
+/**
+ * Runs the Luhn checksum over a card number
+ * @param number - Card number digits
+ * @returns True if the checksum is valid
+ */
+function passesLuhn(number: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < number.length; i++) {
+    let digit = Number(number[number.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Validates the card credential
+ * @param card - payment_method from the request
+ * @throws AcpRequestError with code invalid_card if the card fails basic
+ * validation, or missing/invalid for malformed fields
+ */
+function validateCard(card: Record<string, unknown>): void {
+  if (card.type !== 'card') {
+    throw createAcpError('invalid', 'payment_method.type must be card', '$.payment_method.type');
+  }
+  if (!CARD_NUMBER_TYPES.includes(card.card_number_type as string)) {
+    throw createAcpError(
+      'invalid',
+      `payment_method.card_number_type must be one of: ${CARD_NUMBER_TYPES.join(', ')}`,
+      '$.payment_method.card_number_type'
+    );
+  }
+  if (!CARD_FUNDING_TYPES.includes(card.display_card_funding_type as string)) {
+    throw createAcpError(
+      'invalid',
+      `payment_method.display_card_funding_type must be one of: ${CARD_FUNDING_TYPES.join(', ')}`,
+      '$.payment_method.display_card_funding_type'
+    );
+  }
+  requireObject(card.metadata, '$.payment_method.metadata');
+
+  requireString(card.number, '$.payment_method.number');
+  const number = card.number as string;
+  // Network tokens are not Luhn-checked; their issuer validates the cryptogram
+  if (!/^\d{12,19}$/.test(number) || (card.card_number_type === 'fpan' && !passesLuhn(number))) {
+    throw createAcpError('invalid_card', 'Card number is not valid', '$.payment_method.number');
+  }
+
+  const expMonth = card.exp_month as string | undefined;
+  const expYear = card.exp_year as string | undefined;
+  if (expMonth !== undefined && !/^(0?[1-9]|1[0-2])$/.test(expMonth)) {
+    throw createAcpError('invalid_card', 'Expiry month must be 1-12', '$.payment_method.exp_month');
+  }
+  if (expYear !== undefined && !/^\d{4}$/.test(expYear)) {
+    throw createAcpError('invalid_card', 'Expiry year must have 4 digits', '$.payment_method.exp_year');
+  }
+  if (expMonth !== undefined && expYear !== undefined) {
+    // Cards are valid until the end of their expiry month
+    const expiresAt = Date.UTC(Number(expYear), Number(expMonth), 1);
+    if (expiresAt <= Date.now()) {
+      throw createAcpError('invalid_card', 'Card has expired', '$.payment_method.exp_year');
+    }
+  }
+
+  if (card.cvc !== undefined && !/^\d{3,4}$/.test(card.cvc as string)) {
+    throw createAcpError('invalid_card', 'CVC must have 3 or 4 digits', '$.payment_method.cvc');
+  }
+  if (card.iin !== undefined && !/^\d{1,6}$/.test(card.iin as string)) {
+    throw createAcpError('invalid', 'iin must be at most 6 digits', '$.payment_method.iin');
+  }
+  if (card.display_last4 !== undefined && !/^\d{4}$/.test(card.display_last4 as string)) {
+    throw createAcpError(
+      'invalid',
+      'display_last4 must be 4 digits',
+      '$.payment_method.display_last4'
+    );
+  }
+}
+
+/**
+ * Validates the allowance and its checkout session binding
+ * @param allowance - allowance from the request
+ * @throws AcpRequestError if a field is missing or invalid, or the checkout
+ * session does not exist or can no longer be paid
+ */
+function validateAllowance(allowance: Record<string, unknown>): void {
+  const maxAmount = allowance.max_amount;
+  if (typeof maxAmount !== 'number' || !Number.isInteger(maxAmount) || maxAmount <= 0) {
+    throw createAcpError(
+      'invalid',
+      'allowance.max_amount must be a positive integer in minor units',
+      '$.allowance.max_amount'
+    );
+  }
+
+  requireString(allowance.currency, '$.allowance.currency');
+  if (!/^[a-z]{3}$/i.test(allowance.currency as string)) {
+    throw createAcpError(
+      'invalid',
+      'allowance.currency must be an ISO 4217 code',
+      '$.allowance.currency'
+    );
+  }
+
+  requireString(allowance.merchant_id, '$.allowance.merchant_id');
+
+  requireString(allowance.expires_at, '$.allowance.expires_at');
+  const expiresAt = Date.parse(allowance.expires_at as string);
+  if (Number.isNaN(expiresAt) || expiresAt <= Date.now()) {
+    throw createAcpError(
+      'invalid',
+      'allowance.expires_at must be an RFC 3339 timestamp in the future',
+      '$.allowance.expires_at'
+    );
+  }
+
+  requireString(allowance.checkout_session_id, '$.allowance.checkout_session_id');
+  const checkout = readSessionsFromFile().get(allowance.checkout_session_id as string);
+  if (!checkout || !PAYABLE_CHECKOUT_STATUSES.includes(checkout.status)) {
+    throw createAcpError(
+      'invalid',
+      checkout
+        ? `Checkout session ${checkout.id} can no longer be paid (status: ${checkout.status})`
+        : `Checkout session not found: ${allowance.checkout_session_id}`,
+      '$.allowance.checkout_session_id'
+    );
+  }
+}
+
+// ============================================================================
+// VALIDATION FUNCTIONS
+// ============================================================================
+
+/**
+ * Validates a delegate_payment request body
+ * @param body - Parsed request body
+ * @returns The body typed as a delegate_payment request
+ * @throws AcpRequestError with code missing, invalid or invalid_card
+ */
+export function validateDelegatePaymentRequest(body: unknown): DelegatePaymentRequest {
+  if (!isObject(body)) {
+    throw createAcpError('invalid', 'Request body must be a JSON object');
+  }
+
+  requireObject(body.payment_method, '$.payment_method');
+  validateCard(body.payment_method as Record<string, unknown>);
+
+  requireObject(body.allowance, '$.allowance');
+  validateAllowance(body.allowance as Record<string, unknown>);
+
+  if (body.billing_address !== undefined) {
+    requireObject(body.billing_address, '$.billing_address');
+    const address = body.billing_address as Record<string, unknown>;
+    for (const field of REQUIRED_ADDRESS_FIELDS) {
+      requireString(address[field], `$.billing_address.${field}`);
+    }
+  }
+
+  if (!Array.isArray(body.risk_signals)) {
+    throw createAcpError('missing', 'risk_signals is required', '$.risk_signals');
+  }
+  body.risk_signals.forEach((signal: unknown, index: number) => {
+    if (
+      !isObject(signal) ||
+      !RISK_SIGNAL_TYPES.includes(signal.type as string) ||
+      typeof signal.value !== 'string'
+    ) {
+      throw createAcpError(
+        'invalid',
+        `Risk signals need a type (${RISK_SIGNAL_TYPES.join(', ')}) and a string value`,
+        `$.risk_signals[${index}]`
+      );
+    }
+  });
+
+  requireObject(body.metadata, '$.metadata');
+
+  return body as unknown as DelegatePaymentRequest;
+}
@@ -0,0 +1,213 @@
+/**
+ * Delegated Payment Token Vault
+ *
+ * Responsibilities:
+ * - Encrypt delegated credentials and store them under single-use vault tokens
+ * - Enforce the allowance when a vault token is redeemed: single use, expiry,
+ *   checkout session binding, currency and amount cap
+ * - Decrypt the credential for the payment being made
+ */
+
+import crypto from 'crypto';
+import {
+  DelegatePaymentRequest,
+  DelegatePaymentResponse,
+  DelegatedCard,
+} from '@/lib/types/delegatedPayment';
+import { FulfillmentAddress } from '@/lib/types/checkout';
+import { EncryptedPayload, readVaultFromFile, writeVaultToFile } from '@/lib/vault/vaultStorage';
+import { createAcpError } from '@/lib/acp/errors';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const VAULT_TOKEN_PREFIX = 'vt_';
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const TOKEN_PARAM = '$.payment_data.token';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Decrypted credential released for a single payment
+ */
+export interface VaultedCredential {
+  payment_method: DelegatedCard;
+  billing_address?: FulfillmentAddress;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Derives the vault encryption key from environment
+ * @returns 256-bit key
+ * @throws Error if VAULT_ENCRYPTION_KEY is not set
+ */
+function getEncryptionKey(): Buffer {
+  const secret = process.env.VAULT_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('VAULT_ENCRYPTION_KEY environment variable is required for delegated payments');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypts a credential with AES-256-GCM
+ * @param credential - Credential to encrypt
+ * @returns Encrypted payload
+ */
+function encryptCredential(credential: VaultedCredential): EncryptedPayload {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(CIPHER_ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(credential), 'utf-8'),
+    cipher.final(),
+  ]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypts a credential stored in the vault
+ * @param payload - Encrypted payload
+ * @returns Decrypted credential
+ * @throws Error if the payload was tampered with or the key changed
+ */
+function decryptCredential(payload: EncryptedPayload): VaultedCredential {
+  const decipher = crypto.createDecipheriv(
+    CIPHER_ALGORITHM,
+    getEncryptionKey(),
+    Buffer.from(payload.iv, 'base64')
+  );
+  decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(payload.ciphertext, 'base64')),
+    decipher.final(),
+  ]);
+  return JSON.parse(plaintext.toString('utf-8'));
+}
+
+// ============================================================================
+// VAULT FUNCTIONS
+// ============================================================================
+
+/**
+ * Checks whether a payment token is a vault token
+ * @param token - Token from payment_data
+ * @returns True for vt_ tokens
+ */
+export function isVaultToken(token: string): boolean {
+  return token.startsWith(VAULT_TOKEN_PREFIX);
+}
+
+/**
+ * Stores a validated delegated credential and issues a vault token for it
+ * @param request - Validated delegate_payment request
+ * @param idempotencyKey - Idempotency-Key of the request, if any
+ * @returns Vault token response
+ */
+export function storeDelegatedPayment(
+  request: DelegatePaymentRequest,
+  idempotencyKey: string | null
+): DelegatePaymentResponse {
+  const credential = encryptCredential({
+    payment_method: request.payment_method,
+    billing_address: request.billing_address,
+  });
+
+  const id = `${VAULT_TOKEN_PREFIX}${crypto.randomBytes(16).toString('hex')}`;
+  const created = new Date().toISOString();
+  const metadata: Record<string, string> = {
+    ...request.metadata,
+    merchant_id: request.allowance.merchant_id,
+    ...(idempotencyKey && { idempotency_key: idempotencyKey }),
+  };
+
+  const vault = readVaultFromFile();
+  vault.set(id, {
+    id,
+    credential,
+    allowance: request.allowance,
+    risk_signals: request.risk_signals,
+    metadata,
+    created,
+  });
+  writeVaultToFile(vault);
+
+  return { id, created, metadata };
+}
+
+/**
+ * Redeems a vault token for a checkout payment. The token is marked used
+ * before the credential is released, so it cannot pay twice even if the
+ * payment itself fails.
+ * @param token - Vault token from payment_data
+ * @param checkoutId - Checkout session being paid
+ * @param amount - Checkout total in minor units
+ * @param currency - Checkout currency
+ * @returns Decrypted credential
+ * @throws AcpRequestError if the token is unknown, used, expired, bound to
+ * another checkout session, or does not cover the amount
+ */
+export function redeemVaultToken(
+  token: string,
+  checkoutId: string,
+  amount: number,
+  currency: string
+): VaultedCredential {
+  const vault = readVaultFromFile();
+  const entry = vault.get(token);
+  if (!entry) {
+    throw createAcpError('invalid', `Vault token not recognized: ${token}`, TOKEN_PARAM);
+  }
+
+  const { allowance } = entry;
+  if (entry.used_at) {
+    throw createAcpError('invalid', `Vault token ${token} has already been used`, TOKEN_PARAM, 422);
+  }
+  if (Date.parse(allowance.expires_at) <= Date.now()) {
+    throw createAcpError(
+      'invalid',
+      `Vault token ${token} expired at ${allowance.expires_at}`,
+      TOKEN_PARAM,
+      422
+    );
+  }
+  if (allowance.checkout_session_id !== checkoutId) {
+    throw createAcpError(
+      'invalid',
+      `Vault token ${token} was issued for checkout session ${allowance.checkout_session_id}`,
+      TOKEN_PARAM,
+      422
+    );
+  }
+  if (allowance.currency.toLowerCase() !== currency.toLowerCase()) {
+    throw createAcpError(
+      'invalid',
+      `Vault token ${token} allows ${allowance.currency} payments, but the checkout is in ${currency}`,
+      TOKEN_PARAM,
+      422
+    );
+  }
+  if (amount > allowance.max_amount) {
+    throw createAcpError(
+      'invalid',
+      `Checkout total ${amount} exceeds the vault token allowance of ${allowance.max_amount}`,
+      TOKEN_PARAM,
+      422
+    );
+  }
+
+  entry.used_at = new Date().toISOString();
+  vault.set(token, entry);
+  writeVaultToFile(vault);
+
+  return decryptCredential(entry.credential);
+}
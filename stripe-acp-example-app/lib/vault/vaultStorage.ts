@@ -0,0 +1,84 @@
+/**
+ * Vault Token Storage Utilities
+ *
+ * Responsibilities:
+ * - Read and write vault entries to file storage
+ * - Keep delegated credentials only in encrypted form
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Allowance, RiskSignal } from '@/lib/types/delegatedPayment';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const VAULT_FILE_PATH = path.join(
+  process.cwd(),
+  'conversations',
+  'vault_tokens.json'
+);
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * AES-256-GCM encrypted payload, all fields Base64 encoded
+ */
+export interface EncryptedPayload {
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+/**
+ * Delegated credential stored under a vault token
+ */
+export interface VaultEntry {
+  id: string;
+  credential: EncryptedPayload;
+  allowance: Allowance;
+  risk_signals: RiskSignal[];
+  metadata: Record<string, string>;
+  created: string;
+  used_at?: string;
+}
+
+// ============================================================================
+// STORAGE FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads vault entries from file storage
+ * @returns Map of vault entries keyed by vault token ID
+ */
+export function readVaultFromFile(): Map<string, VaultEntry> {
+  try {
+    if (fs.existsSync(VAULT_FILE_PATH)) {
+      const fileContent = fs.readFileSync(VAULT_FILE_PATH, 'utf-8');
+      if (fileContent) {
+        const data = JSON.parse(fileContent);
+        return new Map(data);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading vault file:', error);
+  }
+  return new Map<string, VaultEntry>();
+}
+
+/**
+ * Writes vault entries to file storage
+ * @param entries - Map of vault entries to persist
+ */
+export function writeVaultToFile(entries: Map<string, VaultEntry>): void {
+  try {
+    fs.mkdirSync(path.dirname(VAULT_FILE_PATH), { recursive: true });
+    const data = JSON.stringify(Array.from(entries.entries()), null, 2);
+    fs.writeFileSync(VAULT_FILE_PATH, data, 'utf-8');
+  } catch (error) {
+    console.error('Error writing vault file:', error);
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * Order Webhook Dispatcher
+ *
+ * Responsibilities:
+ * - Build order_created and order_updated events from orders
+ * - Sign event payloads with the configured webhook secret
+ * - Write events to the durable outbox before the first delivery attempt
+ * - Deliver events after the response is sent, retrying with exponential backoff
+ * - Redeliver events left in the outbox by failures or restarts
+ */
+
+import crypto from 'crypto';
+import { after } from 'next/server';
+import { Order, OrderStatus } from '@/lib/types/order';
+import { OrderEvent, OrderEventStatus, OrderEventType } from '@/lib/types/webhook';
+import { computeRequestSignature } from '@/lib/acp/signature';
+import { createOrderPermalink } from '@/lib/checkout/orderPermalinks';
+import { OutboxEntry, readOutboxFromFile, writeOutboxToFile } from '@/lib/webhooks/outboxStorage';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * How long a claimed entry is left alone before another process may retry it.
+ * Covers a request that is still in flight; a process that dies mid-delivery
+ * leaves the entry due again once this passes.
+ */
+const CLAIM_TIMEOUT_MS = REQUEST_TIMEOUT_MS * 2;
+
+/**
+ * Order statuses as reported in webhook events. The spec has no separate
+ * delivered status, so delivered orders are reported as fulfilled.
+ */
+const EVENT_STATUS_BY_ORDER_STATUS: Record<OrderStatus, OrderEventStatus> = {
+  confirmed: 'confirmed',
+  fulfilled: 'fulfilled',
+  shipped: 'shipped',
+  delivered: 'fulfilled',
+  canceled: 'canceled',
+};
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Where and how order events are delivered
+ */
+interface WebhookConfig {
+  url: string;
+  secret: string;
+  maxAttempts: number;
+  baseDelayMs: number;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads the webhook configuration from environment
+ * @returns Configuration, or null when no webhook URL is configured
+ * @throws Error if a URL is configured without a signing secret
+ */
+function getWebhookConfig(): WebhookConfig | null {
+  const url = process.env.ORDER_WEBHOOK_URL;
+  if (!url) {
+    return null;
+  }
+
+  const secret = process.env.ORDER_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error('ORDER_WEBHOOK_SECRET environment variable is required when ORDER_WEBHOOK_URL is set');
+  }
+
+  const maxAttempts = Number(process.env.ORDER_WEBHOOK_MAX_ATTEMPTS);
+  const baseDelayMs = Number(process.env.ORDER_WEBHOOK_BASE_DELAY_MS);
+  return {
+    url,
+    secret,
+    maxAttempts: maxAttempts > 0 ? maxAttempts : DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs: baseDelayMs > 0 ? baseDelayMs : DEFAULT_BASE_DELAY_MS,
+  };
+}
+
+/**
+ * Builds the event sent for an order. Only refunds that went through or are
+ * still pending are reported; failed and canceled refunds returned nothing.
+ * @param type - Event type
+ * @param order - Order that changed
+ * @param baseUrl - Origin the order page is served from
+ * @returns Order event
+ * @throws Error if ORDER_LINK_SIGNING_SECRET is not set
+ */
+function buildOrderEvent(type: OrderEventType, order: Order, baseUrl: string): OrderEvent {
+  return {
+    type,
+    data: {
+      type: 'order',
+      checkout_session_id: order.checkout_id,
+      permalink_url: createOrderPermalink(order.id, baseUrl),
+      status: EVENT_STATUS_BY_ORDER_STATUS[order.status],
+      refunds: (order.refunds || [])
+        .filter((refund) => refund.status === 'succeeded' || refund.status === 'pending')
+        .map((refund) => ({ type: refund.type, amount: refund.amount })),
+    },
+  };
+}
+
+/**
+ * Waits for a number of milliseconds
+ * @param ms - Delay in milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Sends a signed event once
+ * @param url - Receiver URL the event was queued for
+ * @param secret - Webhook signing secret
+ * @param event - Event to send
+ * @throws Error if the request fails or the receiver does not answer 2xx
+ */
+async function postEvent(url: string, secret: string, event: OrderEvent): Promise<void> {
+  const body = JSON.stringify(event);
+  const timestamp = new Date().toISOString();
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Merchant-Signature': computeRequestSignature(timestamp, body, secret),
+      Timestamp: timestamp,
+      'Request-Id': crypto.randomUUID(),
+    },
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook receiver responded with ${response.status}`);
+  }
+}
+
+// ============================================================================
+// OUTBOX FUNCTIONS
+// ============================================================================
+
+/**
+ * Writes a new event to the outbox, due for delivery immediately
+ * @param config - Webhook configuration
+ * @param event - Event to deliver
+ * @returns Outbox entry ID
+ */
+function enqueueEvent(config: WebhookConfig, event: OrderEvent): string {
+  const outbox = readOutboxFromFile();
+  const now = new Date().toISOString();
+  const id = `evt_${crypto.randomUUID()}`;
+  outbox.set(id, {
+    id,
+    url: config.url,
+    event,
+    attempts: 0,
+    created_at: now,
+    next_attempt_at: now,
+  });
+  writeOutboxToFile(outbox);
+  return id;
+}
+
+/**
+ * Checks whether an outbox entry is due for an attempt
+ * @param entry - Outbox entry
+ * @param now - Current time in milliseconds
+ * @returns True if the entry has attempts left and its next attempt is due
+ */
+function isDue(entry: OutboxEntry, now: number): boolean {
+  return entry.next_attempt_at !== null && new Date(entry.next_attempt_at).getTime() <= now;
+}
+
+/**
+ * Claims a due entry, so concurrent deliveries do not send it twice
+ * @param id - Outbox entry ID
+ * @returns Claimed entry, or null if it was delivered, failed or is not due
+ */
+function claimEntry(id: string): OutboxEntry | null {
+  const outbox = readOutboxFromFile();
+  const entry = outbox.get(id);
+  const now = Date.now();
+  if (!entry || !isDue(entry, now)) {
+    return null;
+  }
+
+  entry.next_attempt_at = new Date(now + CLAIM_TIMEOUT_MS).toISOString();
+  writeOutboxToFile(outbox);
+  return entry;
+}
+
+/**
+ * Makes one delivery attempt for an outbox entry. Delivered entries are
+ * removed; failed ones are rescheduled with exponential backoff (base, 2x
+ * base, 4x base, ...) until every attempt is used.
+ * @param config - Webhook configuration
+ * @param id - Outbox entry ID
+ * @returns Delay until the next attempt, or null if none is scheduled
+ */
+async function attemptDelivery(config: WebhookConfig, id: string): Promise<number | null> {
+  const claimed = claimEntry(id);
+  if (!claimed) {
+    return null;
+  }
+
+  try {
+    await postEvent(claimed.url, config.secret, claimed.event);
+    const outbox = readOutboxFromFile();
+    outbox.delete(id);
+    writeOutboxToFile(outbox);
+    return null;
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    const attempts = claimed.attempts + 1;
+    console.error(`Order webhook attempt ${attempts}/${config.maxAttempts} failed:`, lastError);
+
+    const outbox = readOutboxFromFile();
+    const entry = outbox.get(id);
+    if (!entry) {
+      return null;
+    }
+
+    entry.attempts = attempts;
+    entry.last_error = lastError;
+    if (attempts >= config.maxAttempts) {
+      entry.next_attempt_at = null;
+      entry.failed_at = new Date().toISOString();
+      writeOutboxToFile(outbox);
+      return null;
+    }
+
+    const delay = config.baseDelayMs * 2 ** (attempts - 1);
+    entry.next_attempt_at = new Date(Date.now() + delay).toISOString();
+    writeOutboxToFile(outbox);
+    return delay;
+  }
+}
+
+/**
+ * Delivers an outbox entry, waiting out the backoff between attempts
+ * @param config - Webhook configuration
+ * @param id - Outbox entry ID
+ */
+async function deliverOutboxEntry(config: WebhookConfig, id: string): Promise<void> {
+  let delay = await attemptDelivery(config, id);
+  while (delay !== null) {
+    await sleep(delay);
+    delay = await attemptDelivery(config, id);
+  }
+}
+
+// ============================================================================
+// DISPATCH FUNCTIONS
+// ============================================================================
+
+/**
+ * Writes an order event to the outbox and delivers it once the current
+ * response is sent. Other due entries, such as ones left behind by a restart,
+ * get one attempt each on the way. Does nothing when no webhook URL is
+ * configured.
+ * @param type - Event type
+ * @param order - Order that changed
+ * @param baseUrl - Origin the order page is served from
+ */
+export function emitOrderEvent(type: OrderEventType, order: Order, baseUrl: string): void {
+  // The order change has already been saved, so a misconfiguration is logged
+  // rather than failing the request
+  let config: WebhookConfig | null;
+  let event: OrderEvent;
+  try {
+    config = getWebhookConfig();
+    if (!config) {
+      return;
+    }
+    event = buildOrderEvent(type, order, baseUrl);
+  } catch (error) {
+    console.error('Order webhook not sent:', error);
+    return;
+  }
+
+  const id = enqueueEvent(config, event);
+  after(async () => {
+    await deliverOutboxEntry(config, id);
+
+    const now = Date.now();
+    const dueIds = Array.from(readOutboxFromFile().values())
+      .filter((entry) => isDue(entry, now))
+      .map((entry) => entry.id);
+    for (const dueId of dueIds) {
+      await attemptDelivery(config, dueId);
+    }
+  });
+}
+
+/**
+ * Redelivers the events in the outbox, retrying each with backoff
+ * @param includeFailed - Whether entries that used every attempt are retried
+ * from scratch
+ * @returns Number of entries delivered and number left in the outbox
+ * @throws Error if no webhook URL is configured or its secret is missing
+ */
+export async function redeliverOutboxEvents(
+  includeFailed: boolean
+): Promise<{ delivered: number; remaining: number }> {
+  const config = getWebhookConfig();
+  if (!config) {
+    throw new Error('ORDER_WEBHOOK_URL environment variable is required to redeliver order events');
+  }
+
+  if (includeFailed) {
+    const outbox = readOutboxFromFile();
+    const now = new Date().toISOString();
+    for (const entry of outbox.values()) {
+      if (entry.next_attempt_at === null) {
+        entry.attempts = 0;
+        entry.next_attempt_at = now;
+        delete entry.failed_at;
+      }
+    }
+    writeOutboxToFile(outbox);
+  }
+
+  const ids = Array.from(readOutboxFromFile().keys());
+  for (const id of ids) {
+    await deliverOutboxEntry(config, id);
+  }
+
+  const outbox = readOutboxFromFile();
+  return {
+    delivered: ids.filter((id) => !outbox.has(id)).length,
+    remaining: outbox.size,
+  };
+}
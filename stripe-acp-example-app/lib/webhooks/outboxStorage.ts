@@ -0,0 +1,79 @@
+/**
+ * Webhook Outbox Storage Utilities
+ *
+ * Responsibilities:
+ * - Read and write pending webhook events to file storage
+ * - Keep events until they are delivered, so a restart does not lose them
+ * - Keep failed deliveries so they can be inspected and redelivered
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { OrderEvent } from '@/lib/types/webhook';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const OUTBOX_FILE_PATH = path.join(
+  process.cwd(),
+  'conversations',
+  'webhook_outbox.json'
+);
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Webhook event waiting to be delivered. Entries are written before the first
+ * attempt and removed once the receiver accepts the event.
+ */
+export interface OutboxEntry {
+  id: string;
+  url: string;
+  event: OrderEvent;
+  attempts: number;
+  last_error?: string;
+  created_at: string;
+  // When the next attempt is due; null once every attempt has failed
+  next_attempt_at: string | null;
+  failed_at?: string;
+}
+
+// ============================================================================
+// STORAGE FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads pending webhook events from file storage
+ * @returns Map of outbox entries keyed by entry ID
+ */
+export function readOutboxFromFile(): Map<string, OutboxEntry> {
+  try {
+    if (fs.existsSync(OUTBOX_FILE_PATH)) {
+      const fileContent = fs.readFileSync(OUTBOX_FILE_PATH, 'utf-8');
+      if (fileContent) {
+        const data = JSON.parse(fileContent);
+        return new Map(data);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading webhook outbox file:', error);
+  }
+  return new Map<string, OutboxEntry>();
+}
+
+/**
+ * Writes pending webhook events to file storage
+ * @param entries - Map of outbox entries to persist
+ */
+export function writeOutboxToFile(entries: Map<string, OutboxEntry>): void {
+  try {
+    fs.mkdirSync(path.dirname(OUTBOX_FILE_PATH), { recursive: true });
+    const data = JSON.stringify(Array.from(entries.entries()), null, 2);
+    fs.writeFileSync(OUTBOX_FILE_PATH, data, 'utf-8');
+  } catch (error) {
+    console.error('Error writing webhook outbox file:', error);
+  }
+}
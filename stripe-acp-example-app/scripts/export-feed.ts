@@ -0,0 +1,106 @@
+/**
+ * Export Product Feed
+ *
+ * Responsibilities:
+ * - Read a catalog in the data/products.json format
+ * - Leave out items that fail feed validation, as the feed endpoint does, and
+ *   report them on stderr
+ * - Write it as a JSONL, CSV, TSV or XML product feed, optionally gzipped,
+ *   streaming one product at a time
+ *
+ * Usage:
+ *   pnpm feed:export --format csv --output products.csv.gz
+ *   pnpm feed:export --format xml --input data/products.json > products.xml
+ *
+ * Options:
+ *   --format   jsonl, csv, tsv or xml (default jsonl)
+ *   --input    Catalog file (default data/products.json)
+ *   --output   Output file (default stdout); a .gz name turns on --gzip
+ *   --gzip     Gzip the output
+ */
+
+import fs from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { Product } from '@/lib/types/product';
+import { FEED_EXPORT_FORMATS, isFeedExportFormat, renderProductFeed } from '@/lib/feed/feedExport';
+import { filterValidProducts } from '@/lib/feed/feedValidation';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_INPUT_PATH = 'data/products.json';
+const USAGE =
+  'Usage: pnpm feed:export [--format jsonl|csv|tsv|xml] [--input catalog.json] [--output file] [--gzip]';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Parses command line options of the form --name value or --flag
+ * @param args - Command line arguments
+ * @returns Option values keyed by name; flags are 'true'
+ */
+function parseOptions(args: string[]): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const name = args[i].replace(/^--/, '');
+    const value = args[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      options[name] = 'true';
+    } else {
+      options[name] = value;
+      i++;
+    }
+  }
+  return options;
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+/**
+ * Writes the feed in the requested format
+ * @returns Promise that resolves once the feed is written
+ */
+async function main(): Promise<void> {
+  const options = parseOptions(process.argv.slice(2));
+  const format = options.format || 'jsonl';
+  if (options.help || !isFeedExportFormat(format)) {
+    console.error(`${USAGE}\nFormats: ${FEED_EXPORT_FORMATS.join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const catalog = JSON.parse(
+    fs.readFileSync(options.input || DEFAULT_INPUT_PATH, 'utf-8')
+  ) as Product[];
+  // Each skipped item is reported on stderr, so stdout stays a clean feed
+  const products = filterValidProducts(catalog);
+  const skipped = catalog.length - products.length;
+  if (skipped > 0) {
+    console.error(`Skipped ${skipped} products that fail feed validation`);
+  }
+  const gzip = options.gzip === 'true' || Boolean(options.output?.endsWith('.gz'));
+
+  const source = Readable.from(renderProductFeed(products, format));
+  const destination = options.output ? fs.createWriteStream(options.output) : process.stdout;
+  if (gzip) {
+    await pipeline(source, createGzip(), destination);
+  } else {
+    await pipeline(source, destination);
+  }
+
+  if (options.output) {
+    console.error(`Wrote ${products.length} products to ${options.output}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
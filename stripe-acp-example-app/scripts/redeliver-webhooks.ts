@@ -0,0 +1,40 @@
+/**
+ * Redeliver Order Webhooks
+ *
+ * Responsibilities:
+ * - Deliver order events left in conversations/webhook_outbox.json by failed
+ *   deliveries or server restarts
+ * - Optionally retry events that already used every attempt
+ *
+ * Usage:
+ *   ORDER_WEBHOOK_URL=... ORDER_WEBHOOK_SECRET=... pnpm webhooks:redeliver
+ *   ORDER_WEBHOOK_URL=... ORDER_WEBHOOK_SECRET=... pnpm webhooks:redeliver --failed
+ *
+ * Options:
+ *   --failed   Also retry events whose attempts are used up
+ */
+
+import { redeliverOutboxEvents } from '@/lib/webhooks/orderEvents';
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+/**
+ * Redelivers the outbox and reports what is left
+ * @returns Promise that resolves once every due event was attempted
+ */
+async function main(): Promise<void> {
+  const includeFailed = process.argv.slice(2).includes('--failed');
+  const { delivered, remaining } = await redeliverOutboxEvents(includeFailed);
+
+  console.error(`Delivered ${delivered} events, ${remaining} left in the outbox`);
+  if (remaining > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,86 @@
+/**
+ * Send Stripe Fixture Event
+ *
+ * Responsibilities:
+ * - Fill placeholders such as "{{CHECKOUT_ID}}" in a fixture event
+ * - Sign the event with STRIPE_WEBHOOK_SECRET the same way Stripe does
+ * - POST it to the local Stripe webhook endpoint and print the response
+ *
+ * Usage:
+ *   node scripts/send-stripe-event.mjs fixtures/stripe/payment_intent.succeeded.json \
+ *     CHECKOUT_ID=checkout_123 PAYMENT_INTENT_ID=pi_123 AMOUNT=16788 CURRENCY=usd
+ */
+
+import fs from 'fs';
+import Stripe from 'stripe';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_WEBHOOK_URL = 'http://localhost:3000/api/stripe/webhook';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Replaces placeholder strings in a fixture. Numeric values replace the
+ * placeholder as numbers so amounts stay integers.
+ * @param value - Fixture value
+ * @param values - Placeholder values keyed by name
+ * @returns Value with placeholders filled
+ */
+function fillPlaceholders(value, values) {
+  if (Array.isArray(value)) {
+    return value.map((item) => fillPlaceholders(item, values));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fillPlaceholders(item, values)])
+    );
+  }
+  const match = typeof value === 'string' && value.match(/^\{\{(\w+)\}\}$/);
+  if (!match) {
+    return value;
+  }
+  if (!(match[1] in values)) {
+    throw new Error(`No value given for placeholder ${match[1]}`);
+  }
+  const filled = values[match[1]];
+  return /^\d+$/.test(filled) ? Number(filled) : filled;
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+const [fixturePath, ...assignments] = process.argv.slice(2);
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+if (!fixturePath || !secret) {
+  console.error('Usage: STRIPE_WEBHOOK_SECRET=whsec_... node scripts/send-stripe-event.mjs <fixture> [KEY=value ...]');
+  process.exit(1);
+}
+
+const values = Object.fromEntries(
+  assignments.map((assignment) => {
+    const separator = assignment.indexOf('=');
+    return [assignment.slice(0, separator), assignment.slice(separator + 1)];
+  })
+);
+
+const event = fillPlaceholders(JSON.parse(fs.readFileSync(fixturePath, 'utf-8')), values);
+event.created = Math.floor(Date.now() / 1000);
+const payload = JSON.stringify(event);
+
+// Signing only needs the webhook secret; the API key is never used
+const stripe = new Stripe('sk_test_unused');
+const signature = stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+const response = await fetch(process.env.STRIPE_WEBHOOK_URL || DEFAULT_WEBHOOK_URL, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+  body: payload,
+});
+console.log(response.status, await response.text());
+process.exitCode = response.ok ? 0 : 1;
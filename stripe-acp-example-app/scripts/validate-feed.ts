@@ -0,0 +1,74 @@
+/**
+ * Validate Product Feed
+ *
+ * Responsibilities:
+ * - Check every item of a catalog against the Product Feed Spec
+ * - Print errors and warnings per item and field
+ * - Exit non-zero when the feed has errors (or warnings with --strict), for CI
+ *
+ * Usage:
+ *   pnpm feed:validate
+ *   pnpm feed:validate --input other-catalog.json --strict
+ *   pnpm feed:validate --json > report.json
+ *
+ * Options:
+ *   --input    Catalog file (default data/products.json)
+ *   --strict   Fail on warnings as well as errors
+ *   --json     Print the report as JSON
+ */
+
+import fs from 'fs';
+import { validateProductFeed } from '@/lib/feed/feedValidation';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_INPUT_PATH = 'data/products.json';
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+/**
+ * Validates the catalog and prints the report
+ */
+function main(): void {
+  const args = process.argv.slice(2);
+  const inputIndex = args.indexOf('--input');
+  const inputPath = inputIndex === -1 ? DEFAULT_INPUT_PATH : args[inputIndex + 1];
+  const strict = args.includes('--strict');
+
+  let items: unknown;
+  try {
+    items = JSON.parse(fs.readFileSync(inputPath, 'utf-8'));
+  } catch (error) {
+    console.error(`Cannot read ${inputPath}: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 2;
+    return;
+  }
+  if (!Array.isArray(items)) {
+    console.error(`${inputPath} must contain a JSON array of products`);
+    process.exitCode = 2;
+    return;
+  }
+
+  const report = validateProductFeed(items);
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    for (const issue of report.issues) {
+      const item = issue.product_id || `#${issue.index}`;
+      console.log(`${issue.severity.toUpperCase().padEnd(7)} ${item} ${issue.field}: ${issue.message}`);
+    }
+    console.log(
+      `${report.products_checked} products checked, ${report.invalid_products} invalid: ` +
+        `${report.error_count} errors, ${report.warning_count} warnings`
+    );
+  }
+
+  process.exitCode = report.error_count > 0 || (strict && report.warning_count > 0) ? 1 : 0;
+}
+
+main();